@@ -1,24 +1,179 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Dish } from './types';
-import { parseMenuImage, generateDishPhoto } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useMemo, useReducer, useRef } from 'react';
+import { Dish, DishExplanation, MenuAnalysisResponse, MenuPage, MenuParseWarning, PhotoStyle, TargetLanguage } from './types';
+import {
+  ApiError,
+  IMAGE_BATCH_SIZE,
+  getErrorCode,
+  isRetryableError,
+  streamMenuImage,
+  generateDishPhoto,
+  generateDishPhotos,
+  translateMenu,
+} from './services/geminiService';
+import { toBoundingBox } from './services/menuGrounding';
+import { DietaryFilter, matchesDietaryFilters } from './services/dietaryFilters';
+import { DishSort, groupDishesByCategory, matchesSearch, sortDishes } from './services/dishSections';
+import { getMenuCurrency, parsePrice } from './services/priceParser';
+import { CurrencySettings, PriceContext, loadCurrencySettings, saveCurrencySettings } from './services/currencyService';
+import { DEFAULT_ORDER_SETTINGS, OrderSettings, calculateOrder } from './services/orderService';
+import { createSessionId, loadSession, releaseSessionImages, saveSession } from './services/sessionStore';
+import { needsTranslation } from './services/menuTranslation';
+import { createImageVariant } from './services/imageVariants';
+import { canQueueImage, dishReducer } from './services/dishReducer';
+import { ErrorContext, ErrorRecovery, RECOVERY_HINT_KEYS, getErrorMessageKey, getErrorRecovery } from './services/errorRecovery';
+import {
+  PRIORITY_OFFSCREEN,
+  PRIORITY_VISIBLE,
+  createGenerationQueue,
+  isAbortError,
+  loadConcurrency,
+  saveConcurrency,
+} from './services/generationQueue';
+import { I18nProvider, LANGUAGE_OPTIONS, MessageKey, createTranslator, loadLanguage, saveLanguage } from './i18n';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, PreprocessedImage, preprocessImage } from './services/imagePreprocessor';
 import DishCard from './components/DishCard';
+import StyleSelector from './components/StyleSelector';
+import MenuPageCarousel from './components/MenuPageCarousel';
+import DietaryFilterBar from './components/DietaryFilterBar';
+import CurrencySettingsPanel from './components/CurrencySettingsPanel';
+import OrderSummary from './components/OrderSummary';
+import RecentMenus from './components/RecentMenus';
+import ScanOptions from './components/ScanOptions';
+import CameraCapture from './components/CameraCapture';
+import DishDetailModal from './components/DishDetailModal';
+import PhotoProgress from './components/PhotoProgress';
+import ExportPanel from './components/ExportPanel';
+import ErrorNotice, { ErrorNoticeContent } from './components/ErrorNotice';
+import CategoryNav from './components/CategoryNav';
+import CategorySection from './components/CategorySection';
+import DishSearchBar from './components/DishSearchBar';
+
+const toDish = (
+  d: MenuAnalysisResponse['dishes'][number],
+  pageId: string,
+  index: number,
+  language: TargetLanguage
+): Dish => ({
+  id: `${pageId}-dish-${index}`,
+  pageId,
+  originalName: d.originalName,
+  englishTranslation: d.englishTranslation,
+  description: d.ingredientsOrDescription,
+  translatedName: d.translatedName,
+  translatedDescription: d.translatedDescription,
+  translationLanguage: language,
+  price: d.price,
+  parsedPrice: d.price ? parsePrice(d.price) : undefined,
+  category: d.category,
+  boundingBox: toBoundingBox(d.boundingBox),
+  dietary: d.dietary,
+  imageStatus: 'idle', // Don't load immediately, wait for scroll
+});
 
 const App: React.FC = () => {
   const [hasApiKey, setHasApiKey] = useState(false);
   const [isCheckingKey, setIsCheckingKey] = useState(true);
   
-  const [menuImage, setMenuImage] = useState<string | null>(null);
-  const [dishes, setDishes] = useState<Dish[]>([]);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // A session is made of one or more menu pages whose dishes are merged into one list
+  const [menuPages, setMenuPages] = useState<MenuPage[]>([]);
+  const [activePageId, setActivePageId] = useState<string | null>(null);
+  const [dishes, dispatchDishes] = useReducer(dishReducer, []);
+  // Latest dishes for callbacks that run outside render, e.g. from a card's IntersectionObserver
+  const dishesRef = useRef(dishes);
+  dishesRef.current = dishes;
+  const [pendingPageCount, setPendingPageCount] = useState(0);
+  const isAnalyzing = pendingPageCount > 0;
+
+  // Identity of the session saved to IndexedDB; created with the first page
+  const [sessionMeta, setSessionMeta] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  // The open session's id, readable from in-flight parses; null once it is closed
+  const sessionIdRef = useRef<string | null>(null);
+  const parseControllersRef = useRef(new Set<AbortController>());
+  const [error, setErrorNotice] = useState<ErrorNoticeContent | null>(null);
+  const setError = (message: string | null) => setErrorNotice(message ? { message } : null);
+  // Non-fatal problems reported while reading the menu, e.g. "3 items could not be read."
+  const [parseWarnings, setParseWarnings] = useState<MenuParseWarning[]>([]);
+
+  // One setting drives both the UI strings and the language dishes are translated into.
+  // The ref lets in-flight parses and translations see the latest choice.
+  const [language, setLanguage] = useState<TargetLanguage>(loadLanguage);
+  const languageRef = useRef(language);
+  const t = useMemo(() => createTranslator(language), [language]);
+
+  /**
+   * Shows a failed request with the message for its error code and, when the
+   * caller can offer one, a button for the matching recovery.
+   */
+  const showRequestError = (
+    err: unknown,
+    context: ErrorContext,
+    fallbackKey: MessageKey,
+    actions: Partial<Record<ErrorRecovery, () => void>> = {}
+  ) => {
+    const code = getErrorCode(err);
+    const recovery = getErrorRecovery(code, context);
+    const hintKey = RECOVERY_HINT_KEYS[recovery];
+    const run = actions[recovery];
+    setErrorNotice({
+      message: t(getErrorMessageKey(code, fallbackKey)),
+      hint: hintKey && t(hintKey),
+      action: run && { label: t(`recovery.${recovery}` as MessageKey), run },
+    });
+  };
+  const [isTranslating, setIsTranslating] = useState(false);
+  // Stops the translation effect from retrying in a loop after a failure
+  const [translationFailedFor, setTranslationFailedFor] = useState<TargetLanguage | null>(null);
+
+  // Photo style applies to every generated image; the ref lets in-flight requests
+  // detect that the style changed while they were running.
+  const [photoStyle, setPhotoStyle] = useState<PhotoStyle>(PhotoStyle.BRIGHT);
+  const photoStyleRef = useRef<PhotoStyle>(PhotoStyle.BRIGHT);
   
-  // Mobile Tab State: 'photos' or 'menu'
+  // Mobile only: dishes, or the original menu page opened from the category bar
   const [activeTab, setActiveTab] = useState<'photos' | 'menu'>('photos');
 
+  // Links a dish card to its region on the menu page
+  const [highlightedDishId, setHighlightedDishId] = useState<string | null>(null);
+  // Element to bring into view once it has rendered: a dish card or a category section
+  const [scrollTarget, setScrollTarget] = useState<{ elementId: string; block: 'center' | 'start' } | null>(null);
+  const [detailDishId, setDetailDishId] = useState<string | null>(null);
+
+  const [dietaryFilters, setDietaryFilters] = useState<DietaryFilter[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [dishSort, setDishSort] = useState<DishSort>('menu');
+  const [collapsedSectionIds, setCollapsedSectionIds] = useState<string[]>([]);
+
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(loadCurrencySettings);
+  // Set by the user when the menu currency was detected wrongly, e.g. yuan read as yen
+  const [menuCurrencyOverride, setMenuCurrencyOverride] = useState<string | null>(null);
+
+  // Order: dish id -> quantity
+  const [orderQuantities, setOrderQuantities] = useState<Record<string, number>>({});
+  const [orderSettings, setOrderSettings] = useState<OrderSettings>(DEFAULT_ORDER_SETTINGS);
+
+  // Cleanup applied to photos before upload (downscaling always happens)
+  const [scanOptions, setScanOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+
   // Camera State
   const [isCameraOpen, setIsCameraOpen] = useState(false);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Photo requests run through one queue so fast scrolling can't flood the API
+  const [photoConcurrency, setPhotoConcurrency] = useState(loadConcurrency);
+  const [generationQueue] = useState(() => createGenerationQueue({
+    concurrency: photoConcurrency,
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 15000,
+    isRetryable: isRetryableError,
+    getRetryDelay: (error) => error instanceof ApiError ? error.retryAfterMs : undefined,
+  }));
+
+  useEffect(() => {
+    generationQueue.setConcurrency(photoConcurrency);
+  }, [photoConcurrency]);
+
+  // Abort requests still in flight when the app goes away
+  useEffect(() => () => generationQueue.cancelAll(), []);
 
   useEffect(() => {
     const checkKey = async () => {
@@ -38,6 +193,52 @@ const App: React.FC = () => {
     checkKey();
   }, []);
 
+  // Scroll after render so the dishes are visible on mobile and the section is expanded
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(scrollTarget.elementId)?.scrollIntoView({ behavior: 'smooth', block: scrollTarget.block });
+    setScrollTarget(null);
+  }, [scrollTarget]);
+
+  // Bring dishes into the current language by translating text only, never re-parsing the image.
+  // Covers a language switch, opening a saved menu and pages parsed before a switch.
+  useEffect(() => {
+    if (isAnalyzing || isTranslating || translationFailedFor === language) return;
+    const pending = dishes.filter(d => needsTranslation(d, language));
+    if (pending.length === 0) return;
+
+    // English text is always present, so switching to English needs no request
+    if (language === 'en') {
+      dispatchDishes({ type: 'translate', translations: [], language: 'en' });
+      return;
+    }
+
+    setIsTranslating(true);
+    translateMenu(pending, language)
+      .then(translations => {
+        if (languageRef.current !== language) return;
+        dispatchDishes({ type: 'translate', translations, language });
+      })
+      .catch(err => {
+        console.error("Error translating menu:", err);
+        if (languageRef.current !== language) return;
+        setTranslationFailedFor(language);
+        // Clearing the failure lets this effect try again
+        showRequestError(err, 'translate', 'error.translate', { retry: () => setTranslationFailedFor(null) });
+      })
+      .finally(() => setIsTranslating(false));
+  }, [dishes, language, isAnalyzing, isTranslating, translationFailedFor]);
+
+  // Autosave the session locally, debounced so a burst of generated images is one write
+  useEffect(() => {
+    if (!sessionMeta || menuPages.length === 0) return;
+    const timer = window.setTimeout(() => {
+      saveSession({ ...sessionMeta, style: photoStyle, pages: menuPages, dishes })
+        .catch(err => console.error("Error saving menu:", err));
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [sessionMeta, menuPages, dishes, photoStyle]);
+
   const handleSelectKey = async () => {
     try {
       if (window.aistudio) {
@@ -46,139 +247,372 @@ const App: React.FC = () => {
       }
     } catch (e) {
       console.error("Error selecting API key:", e);
-      setError("Failed to select API key. Please try again.");
+      setError(t('error.selectKey'));
     }
   };
 
-  const processImage = async (base64Data: string) => {
-    setError(null);
-    setIsAnalyzing(true);
+  // Returns the session the page went into
+  const addMenuPage = async (image: PreprocessedImage) => {
+    const page: MenuPage = { id: `page-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, imageUrl: image.dataUrl };
+    const sessionId = sessionIdRef.current ?? createSessionId();
+    sessionIdRef.current = sessionId;
+    setMenuPages(prev => [...prev, page]);
+    setActivePageId(page.id);
+    setSessionMeta(prev => prev ?? {
+      id: sessionId,
+      name: t('session.defaultName', { date: new Date().toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) }),
+      createdAt: Date.now(),
+    });
     setActiveTab('photos');
+    await parseMenuPage(sessionId, page, image);
+    return sessionId;
+  };
+
+  // The counter carries dish numbering across a retry, so re-read dishes get fresh ids
+  const parseMenuPage = async (sessionId: string, page: MenuPage, image: PreprocessedImage, counter = { next: 0 }) => {
+    setError(null);
+    setPendingPageCount(count => count + 1);
+    const controller = new AbortController();
+    parseControllersRef.current.add(controller);
+    // Closing or switching menus aborts the parse; this also catches events already read
+    const isCurrent = () => !controller.signal.aborted && sessionIdRef.current === sessionId;
     
     try {
-        // Send to Gemini to parse
-        const rawBase64 = base64Data.split(',')[1]; // Remove header
-        const result = await parseMenuImage(rawBase64);
-        
-        const newDishes: Dish[] = result.dishes.map((d, index) => ({
-          id: `dish-${index}-${Date.now()}`,
-          originalName: d.originalName,
-          englishTranslation: d.englishTranslation,
-          description: d.ingredientsOrDescription,
-          price: d.price,
-          category: d.category,
-          isLoadingImage: false, // Don't load immediately, wait for scroll
-          hasAttemptedGeneration: false,
-        }));
+        // Send to Gemini to parse; dishes arrive one by one as they are recognized
+        const targetLanguage = languageRef.current;
+        const warnings = await streamMenuImage(image.base64, image.mimeType, targetLanguage, (d) => {
+          if (!isCurrent()) return;
+          const dish = toDish(d, page.id, counter.next++, targetLanguage);
+          dispatchDishes({ type: 'merge', dishes: [dish] });
+        }, controller.signal);
         
-        setDishes(newDishes);
+        if (warnings.length && isCurrent()) {
+          setParseWarnings(prev => [...prev, ...warnings]);
+        }
       } catch (err) {
-        setError("Failed to analyze the menu. Please try a clearer image.");
+        if (!isCurrent()) return;
         console.error(err);
+        const retry = () => parseMenuPage(sessionId, page, image, counter);
+        showRequestError(err, 'menu', 'error.analyze', { retry, retry_later: retry, new_photo: startCamera });
       } finally {
-        setIsAnalyzing(false);
+        parseControllersRef.current.delete(controller);
+        setPendingPageCount(count => count - 1);
       }
-  }
+  };
+
+  // Pages are parsed one after another to keep their order in the merged list
+  const addMenuImages = async (images: Blob[]) => {
+    let sessionId: string | undefined;
+    for (const blob of images) {
+      // Stop once the menu these pages belong to has been closed
+      if (sessionId && sessionIdRef.current !== sessionId) return;
+      let image: PreprocessedImage;
+      try {
+        image = await preprocessImage(blob, scanOptions);
+      } catch (err) {
+        console.error("Error preparing image:", err);
+        setError(err instanceof Error ? err.message : t('error.readImage'));
+        continue;
+      }
+      sessionId = await addMenuPage(image);
+    }
+  };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const base64 = e.target?.result as string;
-      setMenuImage(base64);
-      processImage(base64);
-    };
-    reader.readAsDataURL(file);
+    const files = event.target.files ? Array.from<File>(event.target.files) : [];
+    // Reset so the same file can be picked again as another page
+    event.target.value = '';
+    await addMenuImages(files);
   };
 
-  const startCamera = async () => {
-    setIsCameraOpen(true);
+  const startCamera = () => {
     setError(null);
+    setIsCameraOpen(true);
+  };
+
+  const handleCameraSubmit = (pages: Blob[]) => {
+    setIsCameraOpen(false);
+    addMenuImages(pages);
+  };
+
+  /**
+   * Queues a photo for a dish. Reads the dish from dishesRef rather than the
+   * render closure, and the status check plus the queue's own dedupe mean a
+   * dish is never fetched twice. Edits from the regenerate form replace the
+   * description used for the prompt.
+   */
+  const requestDishImage = async (
+    dishId: string,
+    priority: number,
+    edits?: { description: string; instructions: string }
+  ) => {
+    const dish = dishesRef.current.find(d => d.id === dishId);
+    if (!dish || !canQueueImage(dish) || generationQueue.has(dishId)) return;
+
+    const style = photoStyleRef.current;
+    const description = edits?.description ?? dish.description;
+    dispatchDishes({ type: 'imageQueued', dishId });
     try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-            video: { facingMode: 'environment' } 
+      const imageUrl = await generationQueue.enqueue(dishId, (signal) => {
+        dispatchDishes({ type: 'imageStarted', dishId });
+        return generateDishPhoto(dish.englishTranslation, description, style, {
+          instructions: edits?.instructions,
+          regenerate: !!edits,
+          signal,
         });
-        if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-        }
+      }, priority);
+
+      // Drop results for a style the user has since switched away from
+      if (photoStyleRef.current !== style) return;
+      const variant = createImageVariant(dishId, imageUrl, style, description, edits?.instructions);
+      dispatchDishes({ type: 'imageSucceeded', dishId, variant });
     } catch (err) {
-        console.error("Camera error:", err);
-        setError("Unable to access camera. Please allow permissions.");
-        setIsCameraOpen(false);
+      if (isAbortError(err)) {
+        // A reset or style change has usually replaced the dishes already; this covers the rest
+        dispatchDishes({ type: 'imageCancelled', dishId });
+        return;
+      }
+      console.error(`Error generating image for ${dish.englishTranslation}:`, err);
+      if (photoStyleRef.current !== style) return;
+      dispatchDishes({ type: 'imageFailed', dishId, error: getErrorCode(err) });
+      // A failed first photo shows on its card; a failed regeneration would go unnoticed behind the old image
+      if (edits) {
+        const retry = () => requestDishImage(dishId, priority, edits);
+        showRequestError(err, 'image', 'error.regenerate', { retry, retry_later: retry });
+      }
     }
   };
 
-  const stopCamera = () => {
-      if (videoRef.current && videoRef.current.srcObject) {
-          const stream = videoRef.current.srcObject as MediaStream;
-          stream.getTracks().forEach(track => track.stop());
-          videoRef.current.srcObject = null;
+  /**
+   * "Generate all photos now": sends every dish without a photo through the
+   * batch route, a batch per queue slot. A retried batch only resends the
+   * dishes that have not reported back yet.
+   */
+  // Sends one batch through the queue; resolves false if it was cancelled
+  const generateBatch = (id: string, remaining: Map<string, Dish>, style: PhotoStyle): Promise<boolean> =>
+    generationQueue.enqueue(id, (signal) => {
+      remaining.forEach((_, dishId) => dispatchDishes({ type: 'imageStarted', dishId }));
+      const requests = Array.from(remaining.values(), dish => ({
+        id: dish.id,
+        dishName: dish.englishTranslation,
+        description: dish.description,
+      }));
+      return generateDishPhotos(requests, style, (result) => {
+        const dish = remaining.get(result.dishId);
+        remaining.delete(result.dishId);
+        if (!dish || photoStyleRef.current !== style) return;
+        if (result.type === 'image') {
+          const variant = createImageVariant(dish.id, result.imageUrl, style, dish.description);
+          dispatchDishes({ type: 'imageSucceeded', dishId: dish.id, variant });
+        } else {
+          console.error(`Error generating image for ${dish.englishTranslation}:`, result.error);
+          dispatchDishes({ type: 'imageFailed', dishId: dish.id, error: result.code });
+        }
+      }, signal);
+    }, PRIORITY_VISIBLE).then(() => true, err => {
+      if (isAbortError(err)) {
+        // After a style change the dishes were already reset and may be queued again
+        if (photoStyleRef.current === style) {
+          remaining.forEach((_, dishId) => dispatchDishes({ type: 'imageCancelled', dishId }));
+        }
+        return false;
       }
-      setIsCameraOpen(false);
-  };
+      console.error("Error generating photos:", err);
+      if (photoStyleRef.current === style) {
+        remaining.forEach((_, dishId) => dispatchDishes({ type: 'imageFailed', dishId, error: getErrorCode(err) }));
+      }
+      return true;
+    });
+
+  const handleGenerateAll = async () => {
+    const style = photoStyleRef.current;
+    const pending = dishesRef.current.filter(d =>
+      (d.imageStatus === 'idle' || d.imageStatus === 'failed') && !generationQueue.has(d.id)
+    );
+    pending.forEach(dish => dispatchDishes({ type: 'imageQueued', dishId: dish.id }));
 
-  const capturePhoto = () => {
-      if (videoRef.current && canvasRef.current) {
-          const video = videoRef.current;
-          const canvas = canvasRef.current;
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-          const context = canvas.getContext('2d');
-          if (context) {
-              context.drawImage(video, 0, 0, canvas.width, canvas.height);
-              const base64 = canvas.toDataURL('image/jpeg');
-              setMenuImage(base64);
-              stopCamera();
-              processImage(base64);
-          }
+    // Batches go one at a time: the server charges the shared photo budget per
+    // dish, so parallel batches would only wait on each other's tokens
+    const runId = Date.now();
+    for (let i = 0; i < pending.length; i += IMAGE_BATCH_SIZE) {
+      const batch = pending.slice(i, i + IMAGE_BATCH_SIZE);
+      const completed = await generateBatch(`batch-${runId}-${i}`, new Map<string, Dish>(batch.map(dish => [dish.id, dish])), style);
+      if (!completed) {
+        if (photoStyleRef.current === style) {
+          pending.slice(i + IMAGE_BATCH_SIZE).forEach(dish => dispatchDishes({ type: 'imageCancelled', dishId: dish.id }));
+        }
+        return;
       }
+    }
+  };
+
+  // Cards report when they enter or leave the viewport: visible ones start
+  // generating, and queued ones that scrolled away yield to those on screen.
+  // Kept stable so the cards' observers are not rebuilt on every render; it only reads refs.
+  const handleDishVisibility = useCallback((dishId: string, isVisible: boolean) => {
+    const priority = isVisible ? PRIORITY_VISIBLE : PRIORITY_OFFSCREEN;
+    generationQueue.setPriority(dishId, priority);
+    // Only untouched dishes start on their own; failed ones wait for an explicit retry
+    const dish = dishesRef.current.find(d => d.id === dishId);
+    if (isVisible && dish?.imageStatus === 'idle') requestDishImage(dishId, priority);
+  }, []);
+
+  const handleStyleChange = (style: PhotoStyle) => {
+    if (style === photoStyleRef.current) return;
+    photoStyleRef.current = style;
+    setPhotoStyle(style);
+    generationQueue.cancelAll();
+    // Clear images so each card regenerates in the new style once it is visible again.
+    // The parsed dishes themselves are kept, so the menu is not re-analyzed.
+    // Earlier variants stay in each dish's history and can still be picked.
+    dispatchDishes({ type: 'clearImages' });
   };
 
-  const generateSingleDish = async (dishId: string) => {
-      setDishes(prevDishes => {
-        const dish = prevDishes.find(d => d.id === dishId);
-        if (!dish || dish.isLoadingImage || dish.generatedImageUrl) return prevDishes;
-        return prevDishes.map(d => d.id === dishId ? { ...d, isLoadingImage: true } : d);
-      });
+  const handleRetryGenerate = (dishId: string) => {
+    requestDishImage(dishId, PRIORITY_VISIBLE);
+  };
 
-      const dishToProcess = dishes.find(d => d.id === dishId);
-      if (!dishToProcess) return;
+  // Generates another variant of a dish that may already have an image, optionally from edited text
+  const handleRegenerate = (dishId: string, description: string, instructions: string) => {
+    requestDishImage(dishId, PRIORITY_VISIBLE, { description, instructions });
+  };
 
-      try {
-        const imageUrl = await generateDishPhoto(
-          dishToProcess.englishTranslation, 
-          dishToProcess.description
-        );
-        
-        setDishes(prev => prev.map(d => 
-            d.id === dishId 
-            ? { ...d, generatedImageUrl: imageUrl, isLoadingImage: false, hasAttemptedGeneration: true } 
-            : d
-        ));
-      } catch (err: any) {
-        console.error(`Error generating image for ${dishToProcess.englishTranslation}:`, err);
-        setDishes(prev => prev.map(d => 
-            d.id === dishId 
-            ? { ...d, isLoadingImage: false, hasAttemptedGeneration: true } 
-            : d
-        ));
+  const handleSelectVariant = (dishId: string, variantId: string) => {
+    dispatchDishes({ type: 'selectVariant', dishId, variantId });
+  };
+
+  const handleDishHighlight = (dishId: string | null) => {
+    setHighlightedDishId(dishId);
+    const dish = dishes.find(d => d.id === dishId);
+    if (dish?.boundingBox) setActivePageId(dish.pageId);
+  };
+
+  const handleShowOnMenu = (dishId: string) => {
+    handleDishHighlight(dishId);
+    setActiveTab('menu');
+  };
+
+  const handleRegionSelect = (dishId: string) => {
+    setHighlightedDishId(dishId);
+    setActiveTab('photos');
+    // The card may be hidden by the search or inside a collapsed section
+    const dish = dishes.find(d => d.id === dishId);
+    if (dish && !matchesSearch(dish, searchQuery)) setSearchQuery('');
+    const section = sections.find(s => s.dishes.some(d => d.id === dishId));
+    if (section) setCollapsedSectionIds(prev => prev.filter(id => id !== section.id));
+    setScrollTarget({ elementId: `dish-card-${dishId}`, block: 'center' });
+  };
+
+  const handleJumpToSection = (sectionId: string) => {
+    setActiveTab('photos');
+    setCollapsedSectionIds(prev => prev.filter(id => id !== sectionId));
+    setScrollTarget({ elementId: sectionId, block: 'start' });
+  };
+
+  const toggleSection = (sectionId: string) => {
+    setCollapsedSectionIds(prev => prev.includes(sectionId) ? prev.filter(id => id !== sectionId) : [...prev, sectionId]);
+  };
+
+  const handleExplanationLoaded = (dishId: string, explanation: DishExplanation) => {
+    dispatchDishes({ type: 'explain', dishId, explanation });
+  };
+
+  const handleConcurrencyChange = (concurrency: number) => {
+    setPhotoConcurrency(concurrency);
+    saveConcurrency(concurrency);
+  };
+
+  const handleCurrencySettingsChange = (settings: CurrencySettings) => {
+    setCurrencySettings(settings);
+    saveCurrencySettings(settings);
+  };
+
+  const handleQuantityChange = (dishId: string, quantity: number) => {
+    setOrderQuantities(prev => {
+      const next = { ...prev };
+      if (quantity > 0) {
+        next[dishId] = quantity;
+      } else {
+        delete next[dishId];
+      }
+      return next;
+    });
+  };
+
+  const toggleDietaryFilter = (filter: DietaryFilter) => {
+    setDietaryFilters(prev => prev.includes(filter) ? prev.filter(f => f !== filter) : [...prev, filter]);
+  };
+
+  const handleOpenSession = async (sessionId: string) => {
+    // Closes the current menu first, which frees its images before the next ones load
+    resetApp();
+    try {
+      const session = await loadSession(sessionId);
+      if (!session) {
+        setError(t('error.menuNotFound'));
+        return;
       }
+      sessionIdRef.current = session.id;
+      photoStyleRef.current = session.style;
+      setPhotoStyle(session.style);
+      setSessionMeta({ id: session.id, name: session.name, createdAt: session.createdAt });
+      setMenuPages(session.pages);
+      setActivePageId(session.pages[0]?.id ?? null);
+      dispatchDishes({ type: 'set', dishes: session.dishes });
+    } catch (err) {
+      console.error("Error opening menu:", err);
+      setError(t('error.openMenu'));
+    }
   };
 
-  const handleRetryGenerate = async (dishId: string) => {
-    setDishes(prev => prev.map(d => d.id === dishId ? { ...d, hasAttemptedGeneration: false } : d));
-    generateSingleDish(dishId);
+  const handleLanguageChange = (next: TargetLanguage) => {
+    languageRef.current = next;
+    setLanguage(next);
+    saveLanguage(next);
+    setTranslationFailedFor(null);
   };
 
   const resetApp = () => {
-    setMenuImage(null);
-    setDishes([]);
+    generationQueue.cancelAll();
+    parseControllersRef.current.forEach(controller => controller.abort());
+    sessionIdRef.current = null;
+    releaseSessionImages();
+    setSessionMeta(null);
+    setMenuPages([]);
+    setActivePageId(null);
+    dispatchDishes({ type: 'set', dishes: [] });
     setError(null);
+    setParseWarnings([]);
     setActiveTab('photos');
+    setHighlightedDishId(null);
+    setDetailDishId(null);
+    setDietaryFilters([]);
+    setMenuCurrencyOverride(null);
+    setSearchQuery('');
+    setCollapsedSectionIds([]);
+    setOrderQuantities({});
+    setTranslationFailedFor(null);
   };
 
+  const activePageIndex = Math.max(0, menuPages.findIndex(p => p.id === activePageId));
+  const detectedMenuCurrency = getMenuCurrency(dishes.map(d => d.parsedPrice), dishes.map(d => d.originalName));
+  const menuCurrency = menuCurrencyOverride ?? detectedMenuCurrency;
+  const priceContext: PriceContext = { ...currencySettings, menuCurrency };
+  // Sections come from every dish so their ids stay put while searching and filtering
+  const sections = groupDishesByCategory(dishes, t('sections.uncategorized'));
+  const isSearching = searchQuery.trim() !== '';
+  const visibleSections = sections
+    .map(section => ({
+      ...section,
+      dishes: sortDishes(section.dishes.filter(d => matchesDietaryFilters(d, dietaryFilters) && matchesSearch(d, searchQuery)), dishSort, priceContext),
+    }))
+    .filter(section => section.dishes.length > 0);
+  const orderTotals = calculateOrder(dishes, orderQuantities, orderSettings, priceContext);
+  const detailDish = dishes.find(d => d.id === detailDishId);
+  const readyPhotoCount = dishes.filter(d => d.generatedImageUrl).length;
+  // Dishes "Generate all photos now" would send: not started yet, or failed
+  const missingPhotoCount = dishes.filter(d => d.imageStatus === 'idle' || d.imageStatus === 'failed').length;
+
   if (isCheckingKey) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -193,13 +627,13 @@ const App: React.FC = () => {
         <div className="max-w-md w-full bg-white rounded-2xl shadow-2xl p-8 text-center">
           <h1 className="text-3xl font-serif font-bold text-gray-900 mb-4">GourmetVision</h1>
           <p className="text-gray-600 mb-8 leading-relaxed">
-            Please select a Google Cloud project to proceed.
+            {t('key.prompt')}
           </p>
           <button
             onClick={handleSelectKey}
             className="w-full bg-stone-800 hover:bg-stone-900 text-white font-medium py-3 px-6 rounded-xl transition-all shadow-lg hover:shadow-xl flex items-center justify-center gap-2"
           >
-            Select API Key
+            {t('key.select')}
           </button>
         </div>
       </div>
@@ -207,40 +641,15 @@ const App: React.FC = () => {
   }
 
   return (
+    <I18nProvider language={language}>
     <div className="min-h-screen bg-gray-50 text-stone-800 font-sans">
-      {/* Hidden Canvas for capture */}
-      <canvas ref={canvasRef} className="hidden"></canvas>
-
       {/* Camera Modal Overlay */}
       {isCameraOpen && (
-          <div className="fixed inset-0 z-[60] bg-black flex flex-col">
-              <div className="flex-1 relative overflow-hidden flex items-center justify-center">
-                  <video 
-                    ref={videoRef} 
-                    autoPlay 
-                    playsInline 
-                    className="w-full h-full object-cover"
-                  />
-                  {/* Guide Frame */}
-                  <div className="absolute inset-0 border-[40px] border-black/50 pointer-events-none flex items-center justify-center">
-                      <div className="border-2 border-white/50 w-full h-full rounded-lg"></div>
-                  </div>
-              </div>
-              <div className="h-32 bg-black flex items-center justify-between px-8">
-                  <button onClick={stopCamera} className="text-white p-4 rounded-full hover:bg-white/10 transition-colors">
-                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                  </button>
-                  
-                  <button onClick={capturePhoto} className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center hover:bg-white/20 transition-all active:scale-95">
-                      <div className="w-16 h-16 bg-white rounded-full"></div>
-                  </button>
-
-                  {/* Spacer to center button */}
-                  <div className="w-16"></div>
-              </div>
-          </div>
+        <CameraCapture
+          onSubmit={handleCameraSubmit}
+          onClose={() => setIsCameraOpen(false)}
+          onError={setError}
+        />
       )}
 
       {/* Header */}
@@ -255,29 +664,41 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold font-serif tracking-tight text-stone-900">GourmetVision</h1>
           </div>
-          {dishes.length > 0 && (
-             <button 
-                onClick={resetApp}
-                className="text-sm font-medium text-stone-500 hover:text-red-500 transition-colors flex items-center gap-1"
-             >
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                </svg>
-                <span className="hidden sm:inline">New Menu</span>
-             </button>
-          )}
+          <div className="flex items-center gap-4">
+            <select
+              value={language}
+              onChange={(e) => handleLanguageChange(e.target.value as TargetLanguage)}
+              aria-label={t('header.language')}
+              className="text-sm font-medium bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-stone-700"
+            >
+              {LANGUAGE_OPTIONS.map(option => (
+                <option key={option.code} value={option.code}>{option.label}</option>
+              ))}
+            </select>
+            {dishes.length > 0 && (
+               <button 
+                  onClick={resetApp}
+                  className="text-sm font-medium text-stone-500 hover:text-red-500 transition-colors flex items-center gap-1"
+               >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                  <span className="hidden sm:inline">{t('header.newMenu')}</span>
+               </button>
+            )}
+          </div>
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        {!menuImage ? (
+      <main className={`max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 ${orderTotals.itemCount > 0 ? 'pb-32' : ''}`}>
+        {menuPages.length === 0 ? (
           // Upload State
           <div className="max-w-xl mx-auto mt-12 sm:mt-20 text-center animate-fade-in-up">
             <h2 className="text-4xl sm:text-5xl font-serif font-bold text-stone-900 mb-6 tracking-tight">
-              Visualize the menu.
+              {t('upload.title')}
             </h2>
             <p className="text-lg text-stone-500 mb-10 leading-relaxed max-w-md mx-auto">
-              Scan any menu instantly. We identify dishes, extract prices, and generate realistic photos.
+              {t('upload.subtitle')}
             </p>
             
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
@@ -290,7 +711,7 @@ const App: React.FC = () => {
                         <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 015.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 00-1.134-.175 2.31 2.31 0 01-1.64-1.055l-.822-1.316a2.192 2.192 0 00-1.736-1.039 48.774 48.774 0 00-5.232 0 2.192 2.192 0 00-1.736 1.039l-.821 1.316z" />
                         <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12.75a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0zM18.75 10.5h.008v.008h-.008V10.5z" />
                     </svg>
-                    <span className="font-semibold text-lg">Use Camera</span>
+                    <span className="font-semibold text-lg">{t('upload.camera')}</span>
                 </button>
 
                 {/* Upload Button */}
@@ -298,85 +719,192 @@ const App: React.FC = () => {
                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
                         <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
                     </svg>
-                    <span className="font-semibold text-lg">Upload Photo</span>
-                    <input type="file" className="hidden" accept="image/*" onChange={handleFileUpload} />
+                    <span className="font-semibold text-lg">{t('upload.photo')}</span>
+                    <input type="file" className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
                 </label>
             </div>
             
-            <p className="mt-6 text-sm text-stone-400">Works with JPEG and PNG</p>
+            <ScanOptions options={scanOptions} onChange={setScanOptions} className="justify-center mt-6" />
+
+            <p className="mt-4 text-sm text-stone-400">{t('upload.formats')}</p>
+
+            {error && <ErrorNotice notice={error} className="mt-6 max-w-md mx-auto" />}
+
+            <RecentMenus onOpen={handleOpenSession} />
           </div>
         ) : (
           // Analysis & Results State
           <div className="animate-fade-in">
              
-             {/* Mobile Tabs */}
-             <div className="md:hidden flex bg-white rounded-lg p-1 shadow-sm border border-gray-200 mb-6 sticky top-20 z-40">
-                <button 
-                  onClick={() => setActiveTab('photos')}
-                  className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'photos' ? 'bg-stone-800 text-white shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
-                >
-                  Photos
-                </button>
-                <button 
-                  onClick={() => setActiveTab('menu')}
-                  className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'menu' ? 'bg-stone-800 text-white shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
-                >
-                  Original Menu
-                </button>
-             </div>
+             {/* Jump-to-category bar; on mobile it also opens the original menu */}
+             <CategoryNav
+               sections={visibleSections.map(section => ({ id: section.id, category: section.category, count: section.dishes.length }))}
+               onSelect={handleJumpToSection}
+               isMenuShown={activeTab === 'menu'}
+               onShowMenu={() => setActiveTab(activeTab === 'menu' ? 'photos' : 'menu')}
+             />
 
              <div className="flex flex-col md:flex-row gap-8 items-start">
                 
-                {/* Left Sidebar: Menu Source (Sticky on Desktop, Tabbed on Mobile) */}
-                <div className={`w-full md:w-1/3 lg:w-1/4 md:sticky md:top-24 ${activeTab === 'menu' ? 'block' : 'hidden md:block'}`}>
+                {/* Left Sidebar: Menu Source (Sticky on Desktop, opened from the category bar on Mobile) */}
+                <div className={`w-full md:w-1/3 lg:w-1/4 md:sticky md:top-36 ${activeTab === 'menu' ? 'block' : 'hidden md:block'}`}>
                    <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
                       <div className="flex items-center justify-between mb-4">
-                         <h3 className="font-bold text-stone-900 text-sm tracking-wide uppercase">Original Source</h3>
+                         <h3 className="font-bold text-stone-900 text-sm tracking-wide uppercase">{t('results.source')}</h3>
+                         {menuPages.length > 1 && (
+                           <span className="text-xs font-medium text-stone-400">{t('results.pageOf', { page: activePageIndex + 1, total: menuPages.length })}</span>
+                         )}
                       </div>
-                      <div className="relative rounded-xl overflow-hidden bg-gray-50 border border-gray-100">
-                        <img src={menuImage} alt="Uploaded Menu" className="w-full h-auto object-contain" />
+                      <MenuPageCarousel
+                        pages={menuPages}
+                        activeIndex={activePageIndex}
+                        onActiveIndexChange={(index) => setActivePageId(menuPages[index].id)}
+                        dishes={dishes}
+                        highlightedDishId={highlightedDishId}
+                        onRegionSelect={handleRegionSelect}
+                      />
+                      <div className="flex gap-2 mt-4">
+                        <label className="flex-1 py-2 rounded-lg border border-dashed border-stone-300 text-stone-600 text-xs font-medium cursor-pointer flex items-center justify-center gap-1.5 transition-colors hover:border-emerald-500 hover:text-emerald-700">
+                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                          </svg>
+                          {t('results.addPage')}
+                          <input type="file" className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
+                        </label>
+                        <button
+                          onClick={startCamera}
+                          aria-label={t('results.addPageCamera')}
+                          className="py-2 px-3 rounded-lg border border-stone-200 text-stone-600 transition-colors hover:border-stone-800 hover:text-stone-900"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 015.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 00-1.134-.175 2.31 2.31 0 01-1.64-1.055l-.822-1.316a2.192 2.192 0 00-1.736-1.039 48.774 48.774 0 00-5.232 0 2.192 2.192 0 00-1.736 1.039l-.821 1.316z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12.75a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0zM18.75 10.5h.008v.008h-.008V10.5z" />
+                          </svg>
+                        </button>
                       </div>
+                      <ScanOptions options={scanOptions} onChange={setScanOptions} className="mt-3" />
                    </div>
+                   <CurrencySettingsPanel
+                     settings={currencySettings}
+                     menuCurrency={menuCurrencyOverride}
+                     detectedMenuCurrency={detectedMenuCurrency}
+                     onMenuCurrencyChange={setMenuCurrencyOverride}
+                     onChange={handleCurrencySettingsChange}
+                   />
+                   {dishes.length > 0 && (
+                     <ExportPanel dishes={dishes} title={sessionMeta?.name ?? t('session.untitled')} style={photoStyle} />
+                   )}
                 </div>
 
                 {/* Main Content: Dishes */}
                 <div className={`w-full md:w-2/3 lg:w-3/4 ${activeTab === 'photos' ? 'block' : 'hidden md:block'}`}>
-                  {error && (
-                    <div className="bg-red-50 text-red-600 p-4 rounded-xl mb-6 border border-red-100 flex items-center gap-3">
-                       <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 flex-shrink-0">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008h-.008V15.75z" />
+                  {error && <ErrorNotice notice={error} className="mb-6" />}
+
+                  {parseWarnings.length > 0 && (
+                    <div className="bg-amber-50 text-amber-800 p-4 rounded-xl mb-6 border border-amber-100 flex items-start gap-3">
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 flex-shrink-0">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.008v.008h-.008V15.75z" />
+                      </svg>
+                      <ul className="flex-1 text-sm font-medium space-y-1">
+                        {parseWarnings.map((warning, index) => (
+                          <li key={index}>
+                            {warning.code === 'DROPPED_ITEMS' || warning.code === 'REPAIRED_ITEMS'
+                              ? t.plural(`warning.${warning.code}`, warning.count ?? 0)
+                              : t(`warning.${warning.code}`, { count: warning.count ?? 0 })}
+                          </li>
+                        ))}
+                      </ul>
+                      <button onClick={() => setParseWarnings([])} aria-label={t('results.dismiss')} className="text-amber-600 hover:text-amber-900">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
                         </svg>
-                        <span className="text-sm font-medium">{error}</span>
+                      </button>
                     </div>
                   )}
 
-                  {isAnalyzing ? (
+                  {isAnalyzing && dishes.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-32 text-center">
                       <div className="relative w-16 h-16 mb-6">
                          <div className="absolute inset-0 border-4 border-gray-100 rounded-full"></div>
                          <div className="absolute inset-0 border-4 border-emerald-500 rounded-full border-t-transparent animate-spin"></div>
                       </div>
-                      <h3 className="text-2xl font-serif font-bold text-stone-900 mb-2">Reading the menu...</h3>
-                      <p className="text-stone-500">Identifying delicious dishes & prices.</p>
+                      <h3 className="text-2xl font-serif font-bold text-stone-900 mb-2">{t('results.readingTitle')}</h3>
+                      <p className="text-stone-500">{t('results.readingSubtitle')}</p>
                     </div>
                   ) : dishes.length > 0 ? (
-                    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
-                    {dishes.map((dish) => (
-                        <DishCard 
-                        key={dish.id} 
-                        dish={dish} 
-                        onGenerate={generateSingleDish}
-                        onRetry={handleRetryGenerate}
-                        />
+                    <>
+                    {isAnalyzing && (
+                      <div className="bg-emerald-50 text-emerald-700 p-3 rounded-xl mb-6 border border-emerald-100 flex items-center gap-3">
+                        <div className="w-4 h-4 border-2 border-emerald-500 rounded-full border-t-transparent animate-spin flex-shrink-0"></div>
+                        <span className="text-sm font-medium">{t.plural('results.readingProgress', dishes.length)}</span>
+                      </div>
+                    )}
+                    {isTranslating && !isAnalyzing && (
+                      <div className="bg-emerald-50 text-emerald-700 p-3 rounded-xl mb-6 border border-emerald-100 flex items-center gap-3">
+                        <div className="w-4 h-4 border-2 border-emerald-500 rounded-full border-t-transparent animate-spin flex-shrink-0"></div>
+                        <span className="text-sm font-medium">{t('results.translating')}</span>
+                      </div>
+                    )}
+                    <StyleSelector currentStyle={photoStyle} onStyleChange={handleStyleChange} />
+                    <PhotoProgress
+                      ready={readyPhotoCount}
+                      total={dishes.length}
+                      concurrency={photoConcurrency}
+                      onConcurrencyChange={handleConcurrencyChange}
+                      missing={missingPhotoCount}
+                      onGenerateAll={handleGenerateAll}
+                    />
+                    <DishSearchBar
+                      query={searchQuery}
+                      onQueryChange={setSearchQuery}
+                      sort={dishSort}
+                      onSortChange={setDishSort}
+                    />
+                    <DietaryFilterBar
+                      activeFilters={dietaryFilters}
+                      onToggle={toggleDietaryFilter}
+                      onClear={() => setDietaryFilters([])}
+                    />
+                    {visibleSections.length === 0 && (
+                      <p className="text-center text-sm text-stone-500 py-12">{t('results.noMatches')}</p>
+                    )}
+                    {/* Matches are always shown, even in a section the reader collapsed */}
+                    {visibleSections.map((section) => (
+                      <CategorySection
+                        key={section.id}
+                        id={section.id}
+                        category={section.category}
+                        count={section.dishes.length}
+                        isCollapsed={!isSearching && collapsedSectionIds.includes(section.id)}
+                        onToggle={toggleSection}
+                      >
+                        {section.dishes.map((dish) => (
+                          <DishCard
+                            key={dish.id}
+                            dish={dish}
+                            onVisibilityChange={handleDishVisibility}
+                            onRetry={handleRetryGenerate}
+                            onRegenerate={handleRegenerate}
+                            onSelectVariant={handleSelectVariant}
+                            isHighlighted={dish.id === highlightedDishId}
+                            onHighlight={handleDishHighlight}
+                            onShowOnMenu={handleShowOnMenu}
+                            onOpenDetails={setDetailDishId}
+                            priceContext={priceContext}
+                            quantity={orderQuantities[dish.id] ?? 0}
+                            onQuantityChange={handleQuantityChange}
+                          />
+                        ))}
+                      </CategorySection>
                     ))}
-                    </div>
+                    </>
                   ) : (
                     <div className="text-center py-20 bg-white rounded-2xl border-2 border-dashed border-gray-200 flex flex-col items-center justify-center">
                         <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-12 h-12 text-gray-300 mx-auto mb-4">
                           <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v6m3-3H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
-                        <p className="text-stone-500 font-medium">No dishes found.</p>
-                        <p className="text-sm text-stone-400 mt-1">Try a clearer image or a different menu.</p>
+                        <p className="text-stone-500 font-medium">{t('results.noDishes')}</p>
+                        <p className="text-sm text-stone-400 mt-1">{t('results.noDishesHint')}</p>
                         <button 
                             onClick={resetApp}
                             className="mt-6 px-6 py-2.5 bg-stone-800 text-white rounded-xl font-medium shadow-lg hover:bg-stone-900 transition-all hover:-translate-y-0.5 flex items-center gap-2"
@@ -384,7 +912,7 @@ const App: React.FC = () => {
                             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
                                 <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
                             </svg>
-                            Try Another Photo
+                            {t('results.tryAnother')}
                         </button>
                     </div>
                   )}
@@ -393,7 +921,26 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+
+      <OrderSummary
+        totals={orderTotals}
+        settings={orderSettings}
+        priceContext={priceContext}
+        onSettingsChange={setOrderSettings}
+        onQuantityChange={handleQuantityChange}
+        onClear={() => setOrderQuantities({})}
+      />
+
+      {detailDish && (
+        <DishDetailModal
+          dish={detailDish}
+          priceContext={priceContext}
+          onClose={() => setDetailDishId(null)}
+          onExplanationLoaded={handleExplanationLoaded}
+        />
+      )}
     </div>
+    </I18nProvider>
   );
 };
 
@@ -0,0 +1,93 @@
+import type { VercelResponse } from "@vercel/node";
+import { ApiErrorCode, ApiErrorResponse } from "../../types.js";
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  method_not_allowed: 405,
+  not_found: 404,
+  payload_too_large: 413,
+  rate_limited: 429,
+  missing_api_key: 500,
+  invalid_api_key: 500,
+  quota_exceeded: 429,
+  content_policy: 422,
+  timeout: 504,
+  upstream_unavailable: 502,
+  internal: 500,
+};
+
+const DEFAULT_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  missing_api_key: "API key not configured",
+  invalid_api_key: "The AI provider rejected the API key",
+  quota_exceeded: "The AI provider quota is used up",
+  rate_limited: "The AI provider is rate limiting requests",
+  content_policy: "The AI provider refused the request under its content policy",
+  timeout: "The AI provider timed out",
+  upstream_unavailable: "The AI provider is unavailable",
+};
+
+// Thrown by providers when they already know why a call failed
+export class ApiRouteError extends Error {
+  constructor(readonly code: ApiErrorCode, message = DEFAULT_MESSAGES[code] ?? "Request failed") {
+    super(message);
+    this.name = "ApiRouteError";
+  }
+}
+
+export const sendError = (res: VercelResponse, code: ApiErrorCode, message: string, details?: string[]) => {
+  const body: ApiErrorResponse = details ? { error: message, code, details } : { error: message, code };
+  return res.status(ERROR_STATUS[code]).json(body);
+};
+
+// Network failures from fetch/undici and Node sockets
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "UND_ERR_SOCKET"];
+const TIMEOUT_ERROR_CODES = ["ETIMEDOUT", "ECONNABORTED", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT"];
+
+/**
+ * Maps a provider SDK error to an error code. The OpenAI and Google SDKs
+ * both put the HTTP status on `status` and the reason in `code` or the
+ * message, so this reads those fields rather than depending on either SDK's
+ * error classes. Anything unrecognized is reported as `internal` with the
+ * route's own fallback message.
+ */
+export const classifyError = (error: unknown, fallbackMessage: string): ApiRouteError => {
+  if (error instanceof ApiRouteError) return error;
+
+  const { status, code, name, message = "" } = (error ?? {}) as {
+    status?: number;
+    code?: string;
+    name?: string;
+    message?: string;
+  };
+  const causeCode = ((error as { cause?: { code?: string } })?.cause)?.code;
+
+  if (code === "content_policy_violation" || code === "moderation_blocked" || /safety|content policy|blocked/i.test(message)) {
+    return new ApiRouteError("content_policy");
+  }
+  if (code === "insufficient_quota" || /quota|billing/i.test(message)) {
+    return new ApiRouteError("quota_exceeded");
+  }
+  if (status === 429) {
+    return new ApiRouteError("rate_limited");
+  }
+  if (status === 401 || status === 403 || code === "invalid_api_key" || /api key not valid|invalid api key/i.test(message)) {
+    return new ApiRouteError("invalid_api_key");
+  }
+  if (
+    status === 408 || status === 504 ||
+    /timeout/i.test(name ?? "") || TIMEOUT_ERROR_CODES.includes(code ?? causeCode ?? "") ||
+    /timed out|deadline/i.test(message)
+  ) {
+    return new ApiRouteError("timeout");
+  }
+  if ((status !== undefined && status >= 500) || NETWORK_ERROR_CODES.includes(code ?? causeCode ?? "") || /fetch failed/i.test(message)) {
+    return new ApiRouteError("upstream_unavailable");
+  }
+  return new ApiRouteError("internal", fallbackMessage);
+};
+
+// Sends a classified 4xx/5xx for an error caught in a route
+export const sendFailure = (res: VercelResponse, error: unknown, fallbackMessage: string) => {
+  const { code, message } = classifyError(error, fallbackMessage);
+  return sendError(res, code, message);
+};
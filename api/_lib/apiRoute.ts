@@ -0,0 +1,100 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { sendError } from "./apiErrors.js";
+import { RateLimitDecision, RateLimitRule, createRateLimiter, getRateLimitStore } from "./rateLimit.js";
+import { Infer, ObjectSchema, validateBody } from "./requestValidation.js";
+
+// Shared guards for the POST routes. Rejections use the same JSON shape as the
+// routes' own errors, { error, code, details? }, so the client can read them alike.
+
+export interface ApiRouteOptions<S extends ObjectSchema> {
+  // Names the route's rate limit bucket; routes that share a name (and rule) share a budget
+  name: string;
+  maxBodyBytes: number;
+  rateLimit: RateLimitRule;
+  schema: S;
+}
+
+export interface ApiRouteContext {
+  /**
+   * Takes more tokens from the caller's bucket, for work the request does
+   * beyond the one token it was admitted with, e.g. each further dish of a
+   * batch. Always allowed when rate limiting is off.
+   */
+  consumeRateLimit(cost?: number): Promise<RateLimitDecision>;
+}
+
+export type ApiRouteHandler<S extends ObjectSchema> = (
+  req: VercelRequest,
+  res: VercelResponse,
+  body: Infer<S>,
+  context: ApiRouteContext
+) => Promise<unknown>;
+
+// Headers Vercel's edge sets itself, replacing any value the client sent.
+// x-forwarded-for is not used: a client can prepend its own entries to it.
+const CLIENT_IP_HEADERS = ["x-vercel-forwarded-for", "x-real-ip"] as const;
+
+export const getClientIp = (req: VercelRequest): string => {
+  for (const name of CLIENT_IP_HEADERS) {
+    const header = req.headers[name];
+    const value = (Array.isArray(header) ? header[0] : header)?.split(",")[0]?.trim();
+    if (value) return value;
+  }
+  return req.socket?.remoteAddress || "unknown";
+};
+
+const getBodySize = (req: VercelRequest, body: unknown): number => {
+  const declared = Number(req.headers["content-length"]);
+  // Chunked requests have no Content-Length, so measure what was parsed
+  return Number.isFinite(declared) && declared > 0 ? declared : Buffer.byteLength(JSON.stringify(body ?? null));
+};
+
+/**
+ * Wraps a route with the method check, a payload size cap (413), schema
+ * validation (400) and a per-IP token bucket (429 with Retry-After), in that
+ * order, then calls the handler with the validated body. Each request is
+ * admitted for one token; the handler can charge more as it goes.
+ */
+export const createApiRoute = <S extends ObjectSchema>(options: ApiRouteOptions<S>, handle: ApiRouteHandler<S>) => {
+  const store = getRateLimitStore();
+  const limiter = store && createRateLimiter(options.rateLimit, store);
+
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== "POST") {
+      return sendError(res, "method_not_allowed", "Method not allowed");
+    }
+
+    let body: unknown;
+    try {
+      // Vercel parses the body lazily and throws on malformed JSON
+      body = req.body;
+    } catch {
+      return sendError(res, "invalid_request", "Request body must be valid JSON");
+    }
+
+    if (getBodySize(req, body) > options.maxBodyBytes) {
+      return sendError(res, "payload_too_large", `Request body must be at most ${options.maxBodyBytes} bytes`);
+    }
+
+    const result = validateBody(options.schema, body);
+    if (result.ok === false) {
+      return sendError(res, "invalid_request", "Invalid request", result.errors);
+    }
+
+    const bucketKey = `${options.name}:${getClientIp(req)}`;
+    if (limiter) {
+      const decision = await limiter.consume(bucketKey);
+      res.setHeader("RateLimit-Limit", String(options.rateLimit.capacity));
+      res.setHeader("RateLimit-Remaining", String(decision.remaining));
+      if (!decision.allowed) {
+        res.setHeader("Retry-After", String(Math.ceil(decision.retryAfterMs / 1000)));
+        return sendError(res, "rate_limited", "Too many requests, please slow down");
+      }
+    }
+
+    return handle(req, res, result.value, {
+      consumeRateLimit: async (cost = 1) =>
+        limiter ? limiter.consume(bucketKey, cost) : { allowed: true, remaining: Infinity, retryAfterMs: 0 },
+    });
+  };
+};
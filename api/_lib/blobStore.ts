@@ -0,0 +1,107 @@
+import { get as getBlob, put as putBlob } from "@vercel/blob";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+// Binary storage for generated images. The disk adapter is for development and
+// single-instance hosting; serverless deployments need a shared service such
+// as Vercel Blob, since each function instance only sees its own disk.
+export interface BlobStore {
+  get(key: string): Promise<StoredBlob | null>;
+  put(key: string, blob: StoredBlob): Promise<void>;
+}
+
+// Keys are generated by the server, but reject anything that could leave the directory
+const SAFE_KEY = /^[a-z0-9-]+$/;
+
+const checkKey = (key: string) => {
+  if (!SAFE_KEY.test(key)) throw new Error(`Invalid blob key: ${key}`);
+  return key;
+};
+
+export const createFileSystemBlobStore = (directory: string): BlobStore => {
+  const filePath = (key: string) => path.join(directory, checkKey(key));
+
+  return {
+    async get(key) {
+      try {
+        // The content type lives in a small sidecar file next to the bytes
+        const [data, meta] = await Promise.all([
+          fs.readFile(filePath(key)),
+          fs.readFile(`${filePath(key)}.json`, "utf8"),
+        ]);
+        return { data, contentType: (JSON.parse(meta) as { contentType: string }).contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async put(key, blob) {
+      await fs.mkdir(directory, { recursive: true });
+      // Write then rename so a concurrent reader never sees a half-written file;
+      // the sidecar goes first, so the bytes existing implies their type does too.
+      // Temp names are unique per write, as parallel requests can store the same image
+      const target = filePath(key);
+      const suffix = `${randomUUID()}.tmp`;
+      await fs.writeFile(`${target}.json.${suffix}`, JSON.stringify({ contentType: blob.contentType }));
+      await fs.rename(`${target}.json.${suffix}`, `${target}.json`);
+      await fs.writeFile(`${target}.${suffix}`, blob.data);
+      await fs.rename(`${target}.${suffix}`, target);
+    },
+  };
+};
+
+// Vercel Blob, authenticated by BLOB_READ_WRITE_TOKEN. Blobs are private, so
+// images are only reachable through /api/image.
+export const createVercelBlobStore = (): BlobStore => ({
+  async get(key) {
+    const result = await getBlob(checkKey(key), { access: "private" });
+    if (!result || result.statusCode !== 200) return null;
+    return { data: Buffer.from(await new Response(result.stream).arrayBuffer()), contentType: result.blob.contentType };
+  },
+  async put(key, blob) {
+    // Keys are content hashes, so overwriting only ever rewrites the same bytes
+    await putBlob(checkKey(key), blob.data, {
+      access: "private",
+      contentType: blob.contentType,
+      addRandomSuffix: false,
+      allowOverwrite: true,
+    });
+  },
+});
+
+let store: BlobStore | null | undefined;
+
+/**
+ * Returns the configured blob store, or null when there is none and images go
+ * back to the client as data URLs. BLOB_STORE selects the adapter: "vercel"
+ * for deployments, or "fs" for development and single-instance hosting, with
+ * BLOB_STORE_DIR overriding its directory. An unknown driver throws.
+ */
+export const getBlobStore = (): BlobStore | null => {
+  if (store === undefined) {
+    const driver = process.env.BLOB_STORE?.trim() || "none";
+    switch (driver) {
+      case "none":
+        store = null;
+        break;
+      case "vercel":
+        store = createVercelBlobStore();
+        break;
+      case "fs":
+        store = createFileSystemBlobStore(
+          process.env.BLOB_STORE_DIR?.trim() || path.join(os.tmpdir(), "gourmetvision-blobs")
+        );
+        break;
+      default:
+        throw new Error(`Unknown BLOB_STORE driver "${driver}"`);
+    }
+  }
+  return store;
+};
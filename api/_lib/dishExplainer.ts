@@ -0,0 +1,104 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { DishExplanation, DishExplanationRequest, TARGET_LANGUAGES, TargetLanguage } from "../../types.js";
+import { selectMenuBackend } from "./menuParsers/index.js";
+import { MENU_PARSING_MODEL } from "./menuParsers/schema.js";
+import { cleanString, isRecord } from "./menuValidation.js";
+
+// Produces the culinary background shown in the dish detail view
+export interface DishExplainer {
+  name: string;
+  explain(dish: DishExplanationRequest, targetLanguage: TargetLanguage): Promise<DishExplanation>;
+}
+
+const EXPLANATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    origin: { type: Type.STRING, description: "Where the dish comes from and any short history, in 1-2 sentences." },
+    howToEat: { type: Type.STRING, description: "How the dish is traditionally served and eaten, in 1-2 sentences." },
+    flavor: { type: Type.STRING, description: "The typical flavor and texture, in 1-2 sentences." },
+    pronunciation: {
+      type: Type.STRING,
+      description: "Romanized pronunciation of the original name for an English speaker, with stressed syllables in capitals, e.g. 'kah-CHOH eh PEH-peh'.",
+    },
+    originalLanguageCode: {
+      type: Type.STRING,
+      description: "BCP 47 code of the language the original name is written in, e.g. 'it-IT' or 'ja-JP'.",
+    },
+  },
+  required: ["origin", "howToEat", "flavor", "pronunciation", "originalLanguageCode"],
+};
+
+// Loose BCP 47 shape, e.g. "ja" or "zh-Hant-TW"; anything else is treated as unknown
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+/**
+ * Reads the model's explanation. Throws unless the three sections shown in
+ * the detail view are all present; a missing pronunciation is left empty and
+ * an unreadable language code becomes "und".
+ */
+const parseExplanation = (text: string, targetLanguage: TargetLanguage): DishExplanation => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Gemini returned a malformed explanation");
+  }
+  const origin = isRecord(parsed) ? cleanString(parsed.origin) : undefined;
+  const howToEat = isRecord(parsed) ? cleanString(parsed.howToEat) : undefined;
+  const flavor = isRecord(parsed) ? cleanString(parsed.flavor) : undefined;
+  if (!isRecord(parsed) || !origin || !howToEat || !flavor) {
+    throw new Error("Gemini returned an incomplete explanation");
+  }
+
+  const languageCode = cleanString(parsed.originalLanguageCode);
+  return {
+    origin,
+    howToEat,
+    flavor,
+    pronunciation: cleanString(parsed.pronunciation) ?? "",
+    originalLanguageCode: languageCode && LANGUAGE_CODE_PATTERN.test(languageCode) ? languageCode : "und",
+    language: targetLanguage,
+  };
+};
+
+export const createGeminiDishExplainer = (apiKey: string): DishExplainer => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: "gemini",
+    async explain(dish, targetLanguage) {
+      const response = await ai.models.generateContent({
+        model: MENU_PARSING_MODEL,
+        contents: `Explain this menu item to a diner who has never had it. Write the origin, how it's eaten and flavor in ${TARGET_LANGUAGES[targetLanguage]}. Keep each answer short and concrete.\n\n${JSON.stringify(dish)}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: EXPLANATION_SCHEMA,
+          systemInstruction: "You are a culinary expert and food historian.",
+        },
+      });
+
+      const text = response.text;
+      if (!text) throw new Error("No response from Gemini");
+      return parseExplanation(text, targetLanguage);
+    },
+  };
+};
+
+// Offline stand-in used with MENU_PARSER=fixture: builds a canned explanation from the dish text
+export const createFixtureDishExplainer = (): DishExplainer => ({
+  name: "fixture",
+  async explain(dish, targetLanguage) {
+    return {
+      origin: `${dish.englishTranslation} is served as listed on this menu. (Offline sample explanation.)`,
+      howToEat: "Enjoy it as served, ideally while it is fresh.",
+      flavor: dish.description,
+      pronunciation: dish.originalName.toLowerCase().split(/\s+/).join("-"),
+      originalLanguageCode: "und",
+      language: targetLanguage,
+    };
+  },
+});
+
+// Follows MENU_PARSER, like the menu parser
+export const getDishExplainer = (): DishExplainer | null =>
+  selectMenuBackend({ gemini: createGeminiDishExplainer, fixture: createFixtureDishExplainer });
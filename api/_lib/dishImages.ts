@@ -0,0 +1,65 @@
+import { PhotoStyle } from "../../types.js";
+import { getBlobStore } from "./blobStore.js";
+import { createImageCacheKey, getImageCache } from "./imageCache.js";
+import { ImageProvider, toImageBlob } from "./imageProviders/index.js";
+import { saveImage, toDataUrl, toImagePath } from "./imageStore.js";
+import { RateLimitRule } from "./rateLimit.js";
+import { buildDishPrompt } from "./stylePrompts.js";
+
+export interface DishImageRequest {
+  dishName: string;
+  description: string;
+  style: PhotoStyle;
+  instructions?: string;
+  // Ask for a new take instead of the cached image
+  regenerate?: boolean;
+}
+
+export interface DishImageResult {
+  imageUrl: string;
+  cached: boolean;
+}
+
+// The single and batch routes draw on one per-client budget of photos:
+// enough for a page of dishes at once, then a steady photo every few seconds
+export const IMAGE_RATE_LIMIT_NAME = "images";
+export const IMAGE_RATE_LIMIT: RateLimitRule = { capacity: 30, refillPerSecond: 0.3 };
+
+/**
+ * Returns a cached photo for the dish when there is one, otherwise generates
+ * it, stores the bytes and returns their short /api/image URL, or a data URL
+ * when no blob store is configured.
+ */
+export const generateDishImage = async (
+  provider: ImageProvider,
+  { dishName, description, style, instructions, regenerate = false }: DishImageRequest
+): Promise<DishImageResult> => {
+  const store = getBlobStore();
+  const cache = getImageCache();
+  const cacheKey = createImageCacheKey({ dishName, description, style, instructions, model: `${provider.name}:${provider.model}` });
+  // A regeneration asks for a new take, so it skips the lookup but still refreshes the entry
+  if (cache && !regenerate) {
+    try {
+      const cached = await cache.get(cacheKey);
+      // An /api/image entry from when a store was configured has nothing behind it now
+      if (cached && (store || !cached.imageUrl.startsWith("/api/image/"))) {
+        return { imageUrl: cached.imageUrl, cached: true };
+      }
+    } catch (error) {
+      // A broken cache should never block generation
+      console.warn("Image cache read failed:", error);
+    }
+  }
+
+  const prompt = buildDishPrompt(dishName, description, style, instructions || undefined);
+  const image = await provider.generate({ prompt, dishName, description, style });
+  const blob = await toImageBlob(image);
+  // Without a store the image route has nothing to serve, so the bytes travel inline
+  const imageUrl = store ? toImagePath(await saveImage(store, blob)) : toDataUrl(blob);
+
+  if (cache) {
+    await cache.set(cacheKey, { imageUrl, createdAt: Date.now() })
+      .catch((error) => console.warn("Image cache write failed:", error));
+  }
+  return { imageUrl, cached: false };
+};
@@ -0,0 +1,86 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+export interface CachedImage {
+  imageUrl: string;
+  createdAt: number;
+}
+
+// Storage backend for generated images. Swap in another adapter (e.g. a KV or
+// blob service) by implementing this interface.
+export interface ImageCacheStore {
+  get(key: string): Promise<CachedImage | null>;
+  set(key: string, image: CachedImage): Promise<void>;
+}
+
+interface ImageCacheKeyInput {
+  dishName: string;
+  description: string;
+  style: string;
+  model: string;
+  instructions?: string;
+}
+
+// Bump when old entries should not be reused, e.g. after a big prompt template change.
+// Version 2 entries point at /api/image URLs, or hold data URLs when no blob store is set.
+const CACHE_KEY_VERSION = 2;
+
+const normalizeText = (value: string) => value.normalize("NFKC").trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Content-addressed key: the same dish, description, style and model always
+ * map to the same entry, regardless of casing or whitespace.
+ */
+export const createImageCacheKey = ({ dishName, description, style, model, instructions }: ImageCacheKeyInput): string => {
+  const parts = [CACHE_KEY_VERSION, normalizeText(dishName), normalizeText(description), style, model];
+  // Appended only when present so keys for plain requests stay unchanged
+  if (instructions?.trim()) parts.push(normalizeText(instructions));
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+};
+
+export const createFileSystemImageCache = (directory: string): ImageCacheStore => {
+  const filePath = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const contents = await fs.readFile(filePath(key), "utf8");
+        return JSON.parse(contents) as CachedImage;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async set(key, image) {
+      await fs.mkdir(directory, { recursive: true });
+      // Write then rename so a concurrent reader never sees a half-written file
+      const tempPath = `${filePath(key)}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(image));
+      await fs.rename(tempPath, filePath(key));
+    },
+  };
+};
+
+let cache: ImageCacheStore | null | undefined;
+
+/**
+ * Returns the configured cache, or null when caching is disabled.
+ * IMAGE_CACHE=none disables it; IMAGE_CACHE_DIR overrides the directory.
+ */
+export const getImageCache = (): ImageCacheStore | null => {
+  if (cache === undefined) {
+    const driver = process.env.IMAGE_CACHE?.trim() || "fs";
+    if (driver === "none") {
+      cache = null;
+    } else if (driver === "fs") {
+      const directory = process.env.IMAGE_CACHE_DIR?.trim() || path.join(os.tmpdir(), "gourmetvision-image-cache");
+      cache = createFileSystemImageCache(directory);
+    } else {
+      console.warn(`Unknown IMAGE_CACHE driver "${driver}", caching disabled`);
+      cache = null;
+    }
+  }
+  return cache;
+};
@@ -0,0 +1,35 @@
+import { GoogleGenAI } from "@google/genai";
+import { ApiRouteError } from "../apiErrors.js";
+import { ImageProvider } from "./types.js";
+
+const IMAGE_GEN_MODEL = "imagen-4.0-generate-001";
+
+export const createGeminiImageProvider = (apiKey: string): ImageProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: "gemini",
+    model: IMAGE_GEN_MODEL,
+    async generate({ prompt }) {
+      const response = await ai.models.generateImages({
+        model: IMAGE_GEN_MODEL,
+        prompt,
+        config: {
+          numberOfImages: 1,
+          aspectRatio: "4:3",
+        },
+      });
+
+      const generated = response.generatedImages?.[0];
+      // Imagen returns no image, rather than an error, when its safety filter drops the result
+      if (generated?.raiFilteredReason) {
+        throw new ApiRouteError("content_policy", generated.raiFilteredReason);
+      }
+      const image = generated?.image;
+      if (!image?.imageBytes) {
+        throw new Error("No image data in response");
+      }
+      return { kind: "inline", mimeType: image.mimeType ?? "image/png", base64: image.imageBytes };
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import { StoredBlob } from "../blobStore.js";
+import { createGeminiImageProvider } from "./gemini.js";
+import { createOpenAIImageProvider } from "./openai.js";
+import { createPlaceholderImageProvider } from "./placeholder.js";
+import { GeneratedImage, ImageProvider } from "./types.js";
+
+export type { GeneratedImage, ImageGenerationRequest, ImageProvider } from "./types.js";
+
+/**
+ * Picks the image provider from IMAGE_PROVIDER ("openai" by default, "gemini"
+ * or "placeholder"). Returns null when the chosen provider has no API key.
+ */
+export const getImageProvider = (): ImageProvider | null => {
+  const name = process.env.IMAGE_PROVIDER?.trim() || "openai";
+
+  switch (name) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY?.trim();
+      return apiKey ? createOpenAIImageProvider(apiKey) : null;
+    }
+    case "gemini": {
+      const apiKey = process.env.GEMINI_API_KEY?.trim();
+      return apiKey ? createGeminiImageProvider(apiKey) : null;
+    }
+    case "placeholder":
+      return createPlaceholderImageProvider();
+    default:
+      console.warn(`Unknown IMAGE_PROVIDER "${name}"`);
+      return null;
+  }
+};
+
+// Hosted URLs expire (OpenAI's after an hour), so their bytes are downloaded and kept too
+export const toImageBlob = async (image: GeneratedImage): Promise<StoredBlob> => {
+  if (image.kind === "inline") {
+    return { data: Buffer.from(image.base64, "base64"), contentType: image.mimeType };
+  }
+  const response = await fetch(image.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download generated image: ${response.status}`);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get("content-type") ?? "image/png",
+  };
+};
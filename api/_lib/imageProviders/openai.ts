@@ -0,0 +1,28 @@
+import OpenAI from "openai";
+import { ImageProvider } from "./types.js";
+
+const IMAGE_GEN_MODEL = "gpt-image-1-mini";
+
+export const createOpenAIImageProvider = (apiKey: string): ImageProvider => {
+  const client = new OpenAI({ apiKey });
+
+  return {
+    name: "openai",
+    model: IMAGE_GEN_MODEL,
+    async generate({ prompt }) {
+      const response = await client.images.generate({
+        model: IMAGE_GEN_MODEL,
+        prompt,
+        size: "1024x1024",
+      });
+
+      // gpt-image models return b64_json; older models may return a hosted URL
+      const url = response?.data?.[0]?.url;
+      const b64 = response?.data?.[0]?.b64_json;
+
+      if (b64) return { kind: "inline", mimeType: "image/png", base64: b64 };
+      if (url) return { kind: "url", url };
+      throw new Error("No image data in response");
+    },
+  };
+};
@@ -0,0 +1,82 @@
+import { createHash } from "node:crypto";
+import { PhotoStyle } from "../../../types.js";
+import { ImageProvider } from "./types.js";
+
+// Background, plate and text colors per style so placeholders still show the chosen aesthetic
+const STYLE_PALETTES: Record<PhotoStyle, { background: [string, string]; plate: string; text: string }> = {
+  [PhotoStyle.RUSTIC]: { background: ["#3b2a20", "#1c1410"], plate: "#5a4636", text: "#f5e9dc" },
+  [PhotoStyle.BRIGHT]: { background: ["#f8fafc", "#e2e8f0"], plate: "#ffffff", text: "#1e293b" },
+  [PhotoStyle.SOCIAL]: { background: ["#fce7f3", "#fde68a"], plate: "#ffffff", text: "#831843" },
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, (char) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" })[char]!);
+
+// Greedy word wrap; names without spaces (e.g. CJK) are split by character count
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const words = text.includes(" ") ? text.split(/\s+/) : Array.from(text);
+  const joiner = text.includes(" ") ? " " : "";
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    const candidate = current ? `${current}${joiner}${word}` : word;
+    if (candidate.length > maxChars && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+    return kept;
+  }
+  return lines;
+};
+
+/**
+ * Renders a deterministic SVG from the dish name and style. Needs no API key
+ * or network, so the app can be developed, demoed and tested offline. The
+ * garnish colors follow `seed`, so an edited prompt yields a visibly new image.
+ */
+export const renderPlaceholderSvg = (dishName: string, style: PhotoStyle, seed: string = dishName): string => {
+  const palette = STYLE_PALETTES[style];
+  const hash = createHash("sha256").update(seed).digest();
+  const hue = Math.round((hash[0] / 255) * 360);
+  const garnishes = Array.from({ length: 5 }, (_, i) => {
+    const angle = (hash[i + 1] / 255) * Math.PI * 2;
+    const radius = 70 + (hash[i + 6] / 255) * 60;
+    const x = 512 + Math.cos(angle) * radius;
+    const y = 360 + Math.sin(angle) * radius * 0.6;
+    const size = 14 + (hash[i + 11] / 255) * 18;
+    return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${size.toFixed(1)}" fill="hsl(${(hue + i * 40) % 360}, 65%, 55%)" opacity="0.85"/>`;
+  }).join("");
+
+  const lines = wrapText(dishName, 28, 2);
+  const text = lines
+    .map((line, i) => `<text x="512" y="${640 + i * 56}" text-anchor="middle" font-family="Georgia, serif" font-size="44" font-weight="bold" fill="${palette.text}">${escapeXml(line)}</text>`)
+    .join("");
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="768" viewBox="0 0 1024 768">
+<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${palette.background[0]}"/><stop offset="1" stop-color="${palette.background[1]}"/></linearGradient></defs>
+<rect width="1024" height="768" fill="url(#bg)"/>
+<ellipse cx="512" cy="360" rx="230" ry="150" fill="${palette.plate}" opacity="0.95"/>
+<ellipse cx="512" cy="360" rx="170" ry="105" fill="hsl(${hue}, 55%, 45%)" opacity="0.9"/>
+${garnishes}
+${text}
+<text x="512" y="${640 + lines.length * 56 + 10}" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="20" letter-spacing="4" fill="${palette.text}" opacity="0.6">PLACEHOLDER · ${style}</text>
+</svg>`;
+};
+
+export const createPlaceholderImageProvider = (): ImageProvider => ({
+  name: "placeholder",
+  model: "placeholder-svg-v1",
+  async generate({ prompt, dishName, style }) {
+    const svg = renderPlaceholderSvg(dishName, style, prompt);
+    return { kind: "inline", mimeType: "image/svg+xml", base64: Buffer.from(svg).toString("base64") };
+  },
+});
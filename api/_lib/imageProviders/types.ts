@@ -0,0 +1,19 @@
+import { PhotoStyle } from "../../../types.js";
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  dishName: string;
+  description: string;
+  style: PhotoStyle;
+}
+
+// Providers either return image bytes or a hosted URL
+export type GeneratedImage =
+  | { kind: "inline"; mimeType: string; base64: string }
+  | { kind: "url"; url: string };
+
+export interface ImageProvider {
+  name: string;
+  model: string;
+  generate(request: ImageGenerationRequest): Promise<GeneratedImage>;
+}
@@ -0,0 +1,65 @@
+import { createHash } from "node:crypto";
+import sharp from "sharp";
+import { BlobStore, StoredBlob } from "./blobStore.js";
+
+// Generated images are stored once and served by /api/image/:id in a few sizes.
+// Ids are content hashes, so a URL always means the same bytes and can be cached forever.
+
+export type ImageRendition = "original" | "card" | "thumb";
+
+export const IMAGE_RENDITIONS: ImageRendition[] = ["original", "card", "thumb"];
+
+// Widths cover a 2x display: the card grid is about 380px wide, the variant strip 40px
+const RENDITION_WIDTHS: Record<Exclude<ImageRendition, "original">, number> = {
+  card: 768,
+  thumb: 96,
+};
+
+const IMAGE_ID = /^[a-f0-9]{32}$/;
+
+export const isImageId = (value: unknown): value is string => typeof value === "string" && IMAGE_ID.test(value);
+
+export const isImageRendition = (value: unknown): value is ImageRendition =>
+  typeof value === "string" && (IMAGE_RENDITIONS as string[]).includes(value);
+
+export const toImagePath = (id: string) => `/api/image/${id}`;
+
+// Used when no blob store is configured, so the image needs no second request
+export const toDataUrl = ({ data, contentType }: StoredBlob) => `data:${contentType};base64,${data.toString("base64")}`;
+
+// Stores the bytes and returns their id; storing the same image again is a no-op
+export const saveImage = async (store: BlobStore, blob: StoredBlob): Promise<string> => {
+  const id = createHash("sha256").update(blob.data).digest("hex").slice(0, 32);
+  if (!(await store.get(id))) {
+    await store.put(id, blob);
+  }
+  return id;
+};
+
+/**
+ * Returns the image in the requested size, or null for an unknown id.
+ * Renditions are WebP, made on first request and stored next to the
+ * original. Vector placeholders are served as they are at every size.
+ */
+export const getImageRendition = async (
+  store: BlobStore,
+  id: string,
+  rendition: ImageRendition
+): Promise<StoredBlob | null> => {
+  if (rendition === "original") return store.get(id);
+
+  const key = `${id}-${rendition}`;
+  const existing = await store.get(key);
+  if (existing) return existing;
+
+  const original = await store.get(id);
+  if (!original || original.contentType === "image/svg+xml") return original;
+
+  const data = await sharp(original.data)
+    .resize({ width: RENDITION_WIDTHS[rendition], withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+  const resized = { data, contentType: "image/webp" };
+  await store.put(key, resized);
+  return resized;
+};
@@ -0,0 +1,43 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { DEFAULT_FIXTURE_NAME, getFixtureName } from "./fixtures.js";
+import { parseMenuResponseText } from "../menuValidation.js";
+import { TargetLanguage } from "../../../types.js";
+import { MenuParser } from "./types.js";
+
+// Replayed streams are split into chunks with a short pause to mimic the model
+const STREAM_CHUNK_SIZE = 400;
+const STREAM_CHUNK_DELAY_MS = 80;
+
+/**
+ * Replays recorded responses instead of calling Gemini. Looks for a fixture
+ * recorded for this exact image and language first, then the image's English
+ * recording, then default.json, so any photo works offline.
+ */
+export const createFixtureMenuParser = (fixtureDir: string): MenuParser => {
+  const readFixture = async (base64: string, targetLanguage: TargetLanguage): Promise<string> => {
+    const names = new Set([getFixtureName(base64, targetLanguage), getFixtureName(base64), DEFAULT_FIXTURE_NAME]);
+    for (const name of names) {
+      try {
+        return await fs.readFile(path.join(fixtureDir, `${name}.json`), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+    throw new Error(`No menu fixture found in ${fixtureDir}`);
+  };
+
+  return {
+    name: "fixture",
+    async parse({ base64 }, { targetLanguage }) {
+      return parseMenuResponseText(await readFixture(base64, targetLanguage));
+    },
+    async *parseStream({ base64 }, { targetLanguage }) {
+      const contents = await readFixture(base64, targetLanguage);
+      for (let i = 0; i < contents.length; i += STREAM_CHUNK_SIZE) {
+        await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+        yield contents.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+};
@@ -0,0 +1,14 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { TargetLanguage } from "../../../types.js";
+
+// Recorded model responses live here, keyed by a hash of the menu image
+export const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), "fixtures", "menus");
+
+export const DEFAULT_FIXTURE_NAME = "default";
+
+// English fixtures keep the bare hash so recordings made before translation support still match
+export const getFixtureName = (base64Image: string, targetLanguage: TargetLanguage = "en"): string => {
+  const hash = createHash("sha256").update(base64Image).digest("hex").slice(0, 16);
+  return targetLanguage === "en" ? hash : `${hash}.${targetLanguage}`;
+};
@@ -0,0 +1,73 @@
+import { GoogleGenAI } from "@google/genai";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { MENU_PARSING_MODEL, MENU_SYSTEM_INSTRUCTION, buildMenuPrompt, buildMenuResponseSchema } from "./schema.js";
+import { getFixtureName } from "./fixtures.js";
+import { parseMenuResponseText } from "../menuValidation.js";
+import { MenuImage, MenuParseOptions, MenuParser } from "./types.js";
+
+interface GeminiMenuParserOptions {
+  // When set, every raw model response is saved here for the fixture parser to replay
+  recordDir?: string;
+}
+
+export const createGeminiMenuParser = (apiKey: string, options: GeminiMenuParserOptions = {}): MenuParser => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const buildRequest = ({ base64, mimeType }: MenuImage, { targetLanguage }: MenuParseOptions) => ({
+    model: MENU_PARSING_MODEL,
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType,
+            data: base64,
+          },
+        },
+        {
+          text: buildMenuPrompt(targetLanguage),
+        },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: buildMenuResponseSchema(targetLanguage),
+      systemInstruction: MENU_SYSTEM_INSTRUCTION,
+    },
+  });
+
+  const record = async (base64: string, { targetLanguage }: MenuParseOptions, text: string) => {
+    if (!options.recordDir) return;
+    const fixturePath = path.join(options.recordDir, `${getFixtureName(base64, targetLanguage)}.json`);
+    await fs.mkdir(options.recordDir, { recursive: true });
+    await fs.writeFile(fixturePath, text);
+    console.log(`Recorded menu fixture: ${fixturePath}`);
+  };
+
+  return {
+    name: "gemini",
+    async parse(image, parseOptions) {
+      const response = await ai.models.generateContent(buildRequest(image, parseOptions));
+
+      const text = response.text;
+      if (!text) throw new Error("No response from Gemini");
+
+      await record(image.base64, parseOptions, text);
+      return parseMenuResponseText(text);
+    },
+    async *parseStream(image, parseOptions) {
+      const stream = await ai.models.generateContentStream(buildRequest(image, parseOptions));
+
+      let fullText = "";
+      for await (const chunk of stream) {
+        const text = chunk.text;
+        if (!text) continue;
+        fullText += text;
+        yield text;
+      }
+
+      if (!fullText) throw new Error("No response from Gemini");
+      await record(image.base64, parseOptions, fullText);
+    },
+  };
+};
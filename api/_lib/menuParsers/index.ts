@@ -0,0 +1,48 @@
+import { createFixtureMenuParser } from "./fixture.js";
+import { DEFAULT_FIXTURE_DIR } from "./fixtures.js";
+import { createGeminiMenuParser } from "./gemini.js";
+import { MenuParser } from "./types.js";
+
+export type { MenuImage, MenuParseOptions, MenuParser } from "./types.js";
+
+// How to build a menu model client for each MENU_PARSER value
+export interface MenuBackends<T> {
+  gemini: (apiKey: string) => T;
+  fixture: () => T;
+}
+
+/**
+ * Builds the client MENU_PARSER selects ("gemini" by default, or "fixture" for
+ * offline development). The parser, translator and explainer all go through
+ * this, so fixture mode never calls the model. Returns null when Gemini is
+ * selected but has no API key.
+ */
+export const selectMenuBackend = <T>(backends: MenuBackends<T>): T | null => {
+  const name = process.env.MENU_PARSER?.trim() || "gemini";
+
+  switch (name) {
+    case "gemini": {
+      const apiKey = process.env.GEMINI_API_KEY?.trim();
+      return apiKey ? backends.gemini(apiKey) : null;
+    }
+    case "fixture":
+      return backends.fixture();
+    default:
+      console.warn(`Unknown MENU_PARSER "${name}"`);
+      return null;
+  }
+};
+
+/**
+ * Picks the menu parser from MENU_PARSER. The fixture parser replays recorded
+ * responses from MENU_FIXTURE_DIR, and MENU_FIXTURE_RECORD=1 saves Gemini
+ * responses as new fixtures.
+ */
+export const getMenuParser = (): MenuParser | null => {
+  const fixtureDir = process.env.MENU_FIXTURE_DIR?.trim() || DEFAULT_FIXTURE_DIR;
+  return selectMenuBackend({
+    gemini: (apiKey) =>
+      createGeminiMenuParser(apiKey, { recordDir: process.env.MENU_FIXTURE_RECORD === "1" ? fixtureDir : undefined }),
+    fixture: () => createFixtureMenuParser(fixtureDir),
+  });
+};
@@ -0,0 +1,83 @@
+import { Type, Schema } from "@google/genai";
+import { TARGET_LANGUAGES, TargetLanguage } from "../../../types.js";
+
+// Single source of truth for how we ask Gemini to read a menu
+
+export const MENU_PARSING_MODEL = "gemini-3-flash-preview";
+
+export const MENU_SYSTEM_INSTRUCTION =
+  "You are a culinary expert assisting a food photographer. Extract all menu items accurately, including beverages.";
+
+const BASE_MENU_PROMPT =
+  "Analyze this menu image. Identify all distinct items listed, including food and drinks. For each item, provide the original name, an English translation, the price (if available), the category/section it belongs to, a short visual description in English based on its ingredients, dietary and allergen tags with your confidence in each, and the bounding box of the item on the image.";
+
+// English output stays in every response because image prompts are written in English
+export const buildMenuPrompt = (targetLanguage: TargetLanguage): string =>
+  targetLanguage === "en"
+    ? BASE_MENU_PROMPT
+    : `${BASE_MENU_PROMPT} Also provide the name and the description translated into ${TARGET_LANGUAGES[targetLanguage]} for a reader of that language.`;
+
+// A dietary tag is a value plus the model's confidence in it
+const dietaryTagSchema = (type: Type, description: string): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    value: { type, description },
+    confidence: { type: Type.NUMBER, description: "Confidence in the value, from 0 to 1." },
+  },
+  required: ["value", "confidence"],
+});
+
+const DISH_PROPERTIES: Record<string, Schema> = {
+  originalName: { type: Type.STRING, description: "The name of the item as it appears on the menu." },
+  englishTranslation: { type: Type.STRING, description: "English translation of the name." },
+  ingredientsOrDescription: { type: Type.STRING, description: "A concise visual description of the main ingredients and presentation, in English." },
+  price: { type: Type.STRING, description: "The price of the item including currency symbol. If not found, leave empty." },
+  category: { type: Type.STRING, description: "The category or section this item belongs to (e.g., 'Starters', 'Mains', 'Drinks', 'Desserts')." },
+  boundingBox: {
+    type: Type.ARRAY,
+    items: { type: Type.INTEGER },
+    description: "Location of the item's name and price on the image as [yMin, xMin, yMax, xMax], normalized to 0-1000.",
+  },
+  dietary: {
+    type: Type.OBJECT,
+    description: "Dietary and allergen information inferred from the name, description and common recipes.",
+    properties: {
+      vegetarian: dietaryTagSchema(Type.BOOLEAN, "Whether the item contains no meat or fish."),
+      vegan: dietaryTagSchema(Type.BOOLEAN, "Whether the item contains no animal products."),
+      containsNuts: dietaryTagSchema(Type.BOOLEAN, "Whether the item contains peanuts or tree nuts."),
+      containsGluten: dietaryTagSchema(Type.BOOLEAN, "Whether the item contains wheat, barley, rye or other gluten sources."),
+      containsDairy: dietaryTagSchema(Type.BOOLEAN, "Whether the item contains milk, cheese, butter, cream or other dairy."),
+      containsShellfish: dietaryTagSchema(Type.BOOLEAN, "Whether the item contains shrimp, crab, lobster, mussels or other shellfish."),
+      spicyLevel: dietaryTagSchema(Type.INTEGER, "Spiciness from 0 (not spicy) to 3 (very spicy)."),
+    },
+  },
+};
+
+const REQUIRED_DISH_PROPERTIES = ["originalName", "englishTranslation", "ingredientsOrDescription"];
+
+/**
+ * Response schema for a target language. Non-English targets add
+ * translatedName/translatedDescription next to the English fields.
+ */
+export const buildMenuResponseSchema = (targetLanguage: TargetLanguage): Schema => {
+  const language = TARGET_LANGUAGES[targetLanguage];
+  const translated: Record<string, Schema> = targetLanguage === "en" ? {} : {
+    translatedName: { type: Type.STRING, description: `${language} translation of the name.` },
+    translatedDescription: { type: Type.STRING, description: `The description, written in ${language}.` },
+  };
+
+  return {
+    type: Type.OBJECT,
+    properties: {
+      dishes: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: { ...DISH_PROPERTIES, ...translated },
+          required: [...REQUIRED_DISH_PROPERTIES, ...Object.keys(translated)],
+        },
+      },
+    },
+    required: ["dishes"],
+  };
+};
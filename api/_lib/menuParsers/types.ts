@@ -0,0 +1,18 @@
+import { MenuAnalysisResponse, TargetLanguage } from "../../../types.js";
+
+export interface MenuImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface MenuParseOptions {
+  // Language for translatedName/translatedDescription; English fields are always returned
+  targetLanguage: TargetLanguage;
+}
+
+export interface MenuParser {
+  name: string;
+  parse(image: MenuImage, options: MenuParseOptions): Promise<MenuAnalysisResponse>;
+  // Raw JSON text chunks as the model produces them
+  parseStream(image: MenuImage, options: MenuParseOptions): AsyncIterable<string>;
+}
@@ -0,0 +1,25 @@
+import { MenuStreamEvent } from "../../types.js";
+import { extractDishObjects, parseMenuResponseText, validateDishes } from "./menuValidation.js";
+
+/**
+ * Turns raw model text chunks into stream events. A dish is emitted as soon
+ * as its JSON object is complete; warnings are computed once the full text is
+ * in, using the same validation as the non-streaming path.
+ */
+export async function* toMenuStreamEvents(chunks: AsyncIterable<string>): AsyncGenerator<MenuStreamEvent> {
+  let text = "";
+  let emittedCount = 0;
+
+  for await (const chunk of chunks) {
+    text += chunk;
+    const { objects } = extractDishObjects(text);
+    const newObjects = objects.slice(emittedCount);
+    emittedCount = objects.length;
+
+    for (const dish of validateDishes(newObjects).dishes) {
+      yield { type: "dish", dish };
+    }
+  }
+
+  yield { type: "done", warnings: parseMenuResponseText(text).warnings ?? [] };
+}
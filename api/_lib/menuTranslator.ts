@@ -0,0 +1,109 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { DishTranslation, DishTranslationRequest, TARGET_LANGUAGES, TargetLanguage } from "../../types.js";
+import { selectMenuBackend } from "./menuParsers/index.js";
+import { MENU_PARSING_MODEL } from "./menuParsers/schema.js";
+import { cleanString, isRecord } from "./menuValidation.js";
+
+// Re-translates already parsed dishes from text alone, so switching language needs no image
+export interface MenuTranslator {
+  name: string;
+  translate(dishes: DishTranslationRequest[], targetLanguage: TargetLanguage): Promise<DishTranslation[]>;
+}
+
+const TRANSLATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "The id of the dish, copied unchanged." },
+          translatedName: { type: Type.STRING },
+          translatedDescription: { type: Type.STRING },
+        },
+        required: ["id", "translatedName", "translatedDescription"],
+      },
+    },
+  },
+  required: ["translations"],
+};
+
+// English is the source text, so it never needs a model call
+const toEnglish = (dishes: DishTranslationRequest[]): DishTranslation[] =>
+  dishes.map(({ id, englishTranslation, description }) => ({
+    id,
+    translatedName: englishTranslation,
+    translatedDescription: description,
+  }));
+
+/**
+ * Reads the model's translations, keeping one well-formed entry per requested
+ * id. Dishes left out fall back to English on the client; a missing
+ * description keeps the English one. Throws when the response is not a list.
+ */
+const parseTranslations = (text: string, dishes: DishTranslationRequest[]): DishTranslation[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Gemini returned malformed translations");
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.translations)) {
+    throw new Error("Gemini returned no list of translations");
+  }
+
+  const pending = new Map(dishes.map((dish) => [dish.id, dish]));
+  const translations: DishTranslation[] = [];
+  for (const item of parsed.translations) {
+    if (!isRecord(item) || typeof item.id !== "string") continue;
+    const dish = pending.get(item.id);
+    const translatedName = cleanString(item.translatedName);
+    if (!dish || !translatedName) continue;
+    pending.delete(item.id);
+    translations.push({
+      id: dish.id,
+      translatedName,
+      translatedDescription: cleanString(item.translatedDescription) ?? dish.description,
+    });
+  }
+  return translations;
+};
+
+export const createGeminiMenuTranslator = (apiKey: string): MenuTranslator => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: "gemini",
+    async translate(dishes, targetLanguage) {
+      if (targetLanguage === "en") return toEnglish(dishes);
+
+      const language = TARGET_LANGUAGES[targetLanguage];
+      const response = await ai.models.generateContent({
+        model: MENU_PARSING_MODEL,
+        contents: `Translate the name and description of each menu item into ${language} for a diner reading the menu. Use the original name to keep culinary terms accurate. Return every id exactly once.\n\n${JSON.stringify(dishes)}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: TRANSLATION_SCHEMA,
+        },
+      });
+
+      const text = response.text;
+      if (!text) throw new Error("No response from Gemini");
+
+      return parseTranslations(text, dishes);
+    },
+  };
+};
+
+// Offline stand-in used with MENU_PARSER=fixture: returns the English text unchanged
+export const createPassthroughMenuTranslator = (): MenuTranslator => ({
+  name: "passthrough",
+  async translate(dishes) {
+    return toEnglish(dishes);
+  },
+});
+
+// Follows MENU_PARSER, like the menu parser
+export const getMenuTranslator = (): MenuTranslator | null =>
+  selectMenuBackend({ gemini: createGeminiMenuTranslator, fixture: createPassthroughMenuTranslator });
@@ -0,0 +1,200 @@
+import { DietaryTag, DietaryTags, MenuAnalysisResponse, MenuParseWarning } from "../../types.js";
+
+type ParsedDish = MenuAnalysisResponse["dishes"][number];
+
+const DIETARY_BOOLEAN_KEYS = [
+  "vegetarian",
+  "vegan",
+  "containsNuts",
+  "containsGluten",
+  "containsDairy",
+  "containsShellfish",
+] as const;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const cleanString = (value: unknown): string | undefined => {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  return trimmed || undefined;
+};
+
+const cleanBoundingBox = (value: unknown): number[] | undefined =>
+  Array.isArray(value) && value.length === 4 && value.every((n) => typeof n === "number" && Number.isFinite(n))
+    ? value
+    : undefined;
+
+const cleanTag = <T>(value: unknown, isValue: (v: unknown) => v is T): DietaryTag<T> | undefined => {
+  if (!isRecord(value) || !isValue(value.value)) return undefined;
+  const confidence = typeof value.confidence === "number" && Number.isFinite(value.confidence)
+    ? Math.min(1, Math.max(0, value.confidence))
+    : 0;
+  return { value: value.value, confidence };
+};
+
+const isBoolean = (v: unknown): v is boolean => typeof v === "boolean";
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+const cleanDietary = (value: unknown): DietaryTags | undefined => {
+  if (!isRecord(value)) return undefined;
+
+  const tags: DietaryTags = {};
+  for (const key of DIETARY_BOOLEAN_KEYS) {
+    const tag = cleanTag(value[key], isBoolean);
+    if (tag) tags[key] = tag;
+  }
+  const spicy = cleanTag(value.spicyLevel, isFiniteNumber);
+  if (spicy) tags.spicyLevel = { ...spicy, value: Math.min(3, Math.max(0, Math.round(spicy.value))) };
+
+  return Object.keys(tags).length > 0 ? tags : undefined;
+};
+
+/**
+ * Cleans one dish from model output. Returns null when the item has no usable
+ * name at all; otherwise fills missing names/descriptions from each other and
+ * reports whether anything had to be filled in.
+ */
+const cleanDish = (value: unknown): { dish: ParsedDish; wasRepaired: boolean } | null => {
+  if (!isRecord(value)) return null;
+
+  const originalName = cleanString(value.originalName);
+  const englishTranslation = cleanString(value.englishTranslation);
+  const name = originalName ?? englishTranslation;
+  if (!name) return null;
+
+  const description = cleanString(value.ingredientsOrDescription);
+  const dish: ParsedDish = {
+    originalName: name,
+    englishTranslation: englishTranslation ?? name,
+    // The image prompt needs a description, so fall back to the dish name
+    ingredientsOrDescription: description ?? englishTranslation ?? name,
+    // Left unset when missing so the client falls back to the English text
+    translatedName: cleanString(value.translatedName),
+    translatedDescription: cleanString(value.translatedDescription),
+    price: cleanString(value.price),
+    category: cleanString(value.category),
+    boundingBox: cleanBoundingBox(value.boundingBox),
+    dietary: cleanDietary(value.dietary),
+  };
+
+  return { dish, wasRepaired: !originalName || !englishTranslation || !description };
+};
+
+/**
+ * Walks JSON text that may have been cut off mid-stream and returns every
+ * complete object inside the "dishes" array. `isComplete` is true once the
+ * array's closing bracket has been seen.
+ */
+export const extractDishObjects = (text: string): { objects: unknown[]; isComplete: boolean } => {
+  const keyMatch = /"dishes"\s*:\s*\[/.exec(text);
+  if (!keyMatch) return { objects: [], isComplete: false };
+
+  const objects: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let isEscaped = false;
+  let objectStart = -1;
+
+  for (let i = keyMatch.index + keyMatch[0].length; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (isEscaped) isEscaped = false;
+      else if (char === "\\") isEscaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      if (depth === 0 && char === "{") objectStart = i;
+      depth++;
+    } else if (char === "}" || char === "]") {
+      if (depth === 0) return { objects, isComplete: true };
+      depth--;
+      if (depth === 0 && char === "}" && objectStart !== -1) {
+        try {
+          objects.push(JSON.parse(text.slice(objectStart, i + 1)));
+        } catch {
+          objects.push(undefined);
+        }
+        objectStart = -1;
+      }
+    }
+  }
+
+  return { objects, isComplete: false };
+};
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+/**
+ * Validates already-decoded dish entries: trims, repairs or drops bad entries
+ * and returns warnings the UI can show.
+ */
+export const validateDishes = (items: unknown[]): { dishes: ParsedDish[]; warnings: MenuParseWarning[] } => {
+  const dishes: ParsedDish[] = [];
+  let droppedCount = 0;
+  let repairedCount = 0;
+
+  for (const item of items) {
+    const cleaned = cleanDish(item);
+    if (!cleaned) {
+      droppedCount++;
+      continue;
+    }
+    if (cleaned.wasRepaired) repairedCount++;
+    dishes.push(cleaned.dish);
+  }
+
+  const warnings: MenuParseWarning[] = [];
+  if (droppedCount > 0) {
+    warnings.push({
+      code: "DROPPED_ITEMS",
+      message: `${plural(droppedCount, "item")} could not be read.`,
+      count: droppedCount,
+    });
+  }
+  if (repairedCount > 0) {
+    warnings.push({
+      code: "REPAIRED_ITEMS",
+      message: `${plural(repairedCount, "item was", "items were")} missing a name or description and may be incomplete.`,
+      count: repairedCount,
+    });
+  }
+  return { dishes, warnings };
+};
+
+/**
+ * Turns raw model text into a MenuAnalysisResponse without ever throwing on
+ * bad output. Truncated JSON is salvaged item by item.
+ */
+export const parseMenuResponseText = (text: string): MenuAnalysisResponse => {
+  let items: unknown[];
+  const warnings: MenuParseWarning[] = [];
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (isRecord(parsed) && Array.isArray(parsed.dishes)) {
+      items = parsed.dishes;
+    } else {
+      items = [];
+      warnings.push({ code: "MISSING_DISHES", message: "The menu could not be read as a list of dishes." });
+    }
+  } catch {
+    const recovered = extractDishObjects(text);
+    items = recovered.objects;
+    warnings.push({
+      code: "TRUNCATED_RESPONSE",
+      message: `The menu response was cut off; ${plural(items.length, "item")} recovered. Some dishes may be missing.`,
+      count: items.length,
+    });
+  }
+
+  const validated = validateDishes(items);
+  return { dishes: validated.dishes, warnings: [...warnings, ...validated.warnings] };
+};
@@ -0,0 +1,80 @@
+// Token-bucket rate limiting keyed by client (usually IP) and route.
+
+export interface BucketState {
+  tokens: number;
+  // Time of the last refill, in ms since the epoch
+  updatedAt: number;
+}
+
+// Where buckets live. The in-memory store is per server instance; swap in a
+// shared store (e.g. Redis or a KV service) to limit across instances.
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>;
+  set(key: string, state: BucketState): Promise<void>;
+}
+
+export interface RateLimitRule {
+  // Burst size: requests allowed at once from a full bucket
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  // How long until the next request would be allowed; 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  consume(key: string, cost?: number): Promise<RateLimitDecision>;
+}
+
+export const createMemoryRateLimitStore = (maxKeys = 10_000): RateLimitStore => {
+  const buckets = new Map<string, BucketState>();
+
+  return {
+    async get(key) {
+      return buckets.get(key) ?? null;
+    },
+    async set(key, state) {
+      // Re-insert so Map order tracks recency, then evict the least recently used
+      buckets.delete(key);
+      buckets.set(key, state);
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+    },
+  };
+};
+
+export const createRateLimiter = (rule: RateLimitRule, store: RateLimitStore): RateLimiter => ({
+  async consume(key, cost = 1) {
+    const now = Date.now();
+    const previous = await store.get(key);
+    const elapsedSeconds = previous ? (now - previous.updatedAt) / 1000 : 0;
+    const tokens = previous
+      ? Math.min(rule.capacity, previous.tokens + elapsedSeconds * rule.refillPerSecond)
+      : rule.capacity;
+
+    if (tokens < cost) {
+      await store.set(key, { tokens, updatedAt: now });
+      return { allowed: false, remaining: 0, retryAfterMs: Math.ceil(((cost - tokens) / rule.refillPerSecond) * 1000) };
+    }
+
+    await store.set(key, { tokens: tokens - cost, updatedAt: now });
+    return { allowed: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 };
+  },
+});
+
+let sharedStore: RateLimitStore | null = null;
+
+/**
+ * Store shared by all routes in this instance, or null when RATE_LIMIT=off
+ * (e.g. for local load testing).
+ */
+export const getRateLimitStore = (): RateLimitStore | null => {
+  if (process.env.RATE_LIMIT?.trim() === "off") return null;
+  sharedStore ??= createMemoryRateLimitStore();
+  return sharedStore;
+};
@@ -0,0 +1,131 @@
+import { TARGET_LANGUAGES, TargetLanguage } from "../../types.js";
+
+// Small request-body schemas for the API routes. Each route declares the
+// fields it accepts; anything else in the body is dropped.
+
+interface BaseField {
+  optional?: boolean;
+}
+
+export interface StringField extends BaseField {
+  type: "string";
+  maxLength: number;
+  // Restricts the value to a fixed set, e.g. supported languages
+  oneOf?: readonly string[];
+  pattern?: RegExp;
+  // Normalizes text that ends up in a model prompt; see sanitizeText
+  sanitize?: boolean;
+}
+
+export interface BooleanField extends BaseField {
+  type: "boolean";
+}
+
+export interface ArrayField<S extends ObjectSchema = ObjectSchema> extends BaseField {
+  type: "array";
+  items: S;
+  maxItems: number;
+}
+
+export type FieldSchema = StringField | BooleanField | ArrayField;
+
+export type ObjectSchema = { [key: string]: FieldSchema };
+
+type FieldValue<F> = F extends StringField
+  ? F extends { oneOf: readonly (infer U)[] }
+    ? U
+    : string
+  : F extends BooleanField
+    ? boolean
+    : F extends ArrayField<infer S>
+      ? Infer<S>[]
+      : never;
+
+type RequiredKeys<S extends ObjectSchema> = { [K in keyof S]: S[K]["optional"] extends true ? never : K }[keyof S];
+type OptionalKeys<S extends ObjectSchema> = Exclude<keyof S, RequiredKeys<S>>;
+
+// The validated body type a schema describes
+export type Infer<S extends ObjectSchema> = { [K in RequiredKeys<S>]: FieldValue<S[K]> } & {
+  [K in OptionalKeys<S>]?: FieldValue<S[K]>;
+};
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+// C0/C1 controls and invisible formatting characters (zero-width, bidi overrides)
+// that can hide instructions from a reviewer or break prompt formatting
+const UNSAFE_CHARACTERS = /[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u206f\ufeff]/g;
+
+/**
+ * Canonicalizes user text for prompts: NFKC-normalizes it (so look-alike
+ * full-width characters become plain ones), removes control and invisible
+ * characters, and collapses whitespace, including newlines, to single spaces.
+ */
+export const sanitizeText = (value: string): string =>
+  value.normalize("NFKC").replace(/\s+/g, " ").replace(UNSAFE_CHARACTERS, "").trim();
+
+const validateString = (field: StringField, value: unknown, path: string, errors: string[]): string | undefined => {
+  if (typeof value !== "string") {
+    errors.push(`${path} must be a string`);
+    return undefined;
+  }
+  const text = field.sanitize ? sanitizeText(value) : value;
+  if (text.length > field.maxLength) {
+    errors.push(`${path} must be at most ${field.maxLength} characters`);
+  } else if (!field.optional && text.length === 0) {
+    errors.push(`${path} must not be empty`);
+  } else if (field.oneOf && !field.oneOf.includes(text)) {
+    errors.push(`${path} must be one of: ${field.oneOf.join(", ")}`);
+  } else if (field.pattern && !field.pattern.test(text)) {
+    errors.push(`${path} has an invalid format`);
+  }
+  return text;
+};
+
+const validateObject = (schema: ObjectSchema, input: unknown, path: string, errors: string[]): Record<string, unknown> => {
+  const output: Record<string, unknown> = {};
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    errors.push(`${path || "body"} must be an object`);
+    return output;
+  }
+  const source = input as Record<string, unknown>;
+
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const value = source[key];
+    if (value === undefined || value === null) {
+      if (!field.optional) errors.push(`${fieldPath} is required`);
+      continue;
+    }
+
+    switch (field.type) {
+      case "string":
+        output[key] = validateString(field, value, fieldPath, errors);
+        break;
+      case "boolean":
+        if (typeof value !== "boolean") errors.push(`${fieldPath} must be a boolean`);
+        output[key] = value;
+        break;
+      case "array":
+        if (!Array.isArray(value)) {
+          errors.push(`${fieldPath} must be a list`);
+        } else if (value.length > field.maxItems) {
+          errors.push(`${fieldPath} must have at most ${field.maxItems} items`);
+        } else {
+          output[key] = value.map((item, i) => validateObject(field.items, item, `${fieldPath}[${i}]`, errors));
+        }
+        break;
+    }
+  }
+  return output;
+};
+
+// Reports at most this many problems, so a huge invalid list doesn't produce a huge response
+const MAX_REPORTED_ERRORS = 10;
+
+export const validateBody = <S extends ObjectSchema>(schema: S, body: unknown): ValidationResult<Infer<S>> => {
+  const errors: string[] = [];
+  const value = validateObject(schema, body, "", errors);
+  return errors.length ? { ok: false, errors: errors.slice(0, MAX_REPORTED_ERRORS) } : { ok: true, value: value as Infer<S> };
+};
+
+export const TARGET_LANGUAGE_CODES = Object.keys(TARGET_LANGUAGES) as TargetLanguage[];
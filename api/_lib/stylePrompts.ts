@@ -0,0 +1,50 @@
+import { PhotoStyle } from "../../types.js";
+
+// Files under api/_lib are shared helpers; Vercel does not expose them as routes.
+
+interface StylePromptTemplate {
+  lighting: string;
+  surface: string;
+  cameraAngle: string;
+  composition: string;
+}
+
+export const STYLE_PROMPT_TEMPLATES: Record<PhotoStyle, StylePromptTemplate> = {
+  [PhotoStyle.RUSTIC]: {
+    lighting: "moody low-key lighting from a single window, deep shadows, warm tones",
+    surface: "dark weathered wooden table with linen napkin and cast iron or stoneware",
+    cameraAngle: "45-degree angle at table height, shallow depth of field",
+    composition: "dish slightly off-center with scattered raw ingredients and herbs around it",
+  },
+  [PhotoStyle.BRIGHT]: {
+    lighting: "soft natural daylight, airy and high-key, gentle diffused shadows",
+    surface: "white marble countertop with minimal white ceramic plates",
+    cameraAngle: "three-quarter view from slightly above, crisp focus on the dish",
+    composition: "clean and minimal with generous negative space, dish centered",
+  },
+  [PhotoStyle.SOCIAL]: {
+    lighting: "bright even lighting with vibrant saturated colors and pop",
+    surface: "colorful pastel backdrop or patterned tablecloth",
+    cameraAngle: "top-down overhead flat lay",
+    composition: "trendy flat lay with props, drinks and hands reaching in, filling the frame",
+  },
+};
+
+export const buildDishPrompt = (
+  dishName: string,
+  description: string,
+  style: PhotoStyle,
+  instructions?: string
+): string => {
+  const template = STYLE_PROMPT_TEMPLATES[style];
+  return [
+    `Realistic, appetizing professional photography of ${dishName}.`,
+    `Visual description: ${description}.`,
+    `Lighting: ${template.lighting}.`,
+    `Surface: ${template.surface}.`,
+    `Camera angle: ${template.cameraAngle}.`,
+    `Composition: ${template.composition}.`,
+    ...(instructions ? [`Additional direction: ${instructions}.`] : []),
+    "Professional food styling, high resolution, 8k.",
+  ].join(" ");
+};
@@ -0,0 +1,41 @@
+import { config } from "dotenv";
+import { sendError, sendFailure } from "./_lib/apiErrors.js";
+import { createApiRoute } from "./_lib/apiRoute.js";
+import { getDishExplainer } from "./_lib/dishExplainer.js";
+import { TARGET_LANGUAGE_CODES } from "./_lib/requestValidation.js";
+
+// Load .env.local for local development
+config({ path: ".env.local" });
+
+const schema = {
+  originalName: { type: "string", maxLength: 120, sanitize: true },
+  englishTranslation: { type: "string", maxLength: 120, sanitize: true },
+  description: { type: "string", maxLength: 1000, sanitize: true, optional: true },
+  targetLanguage: { type: "string", maxLength: 5, oneOf: TARGET_LANGUAGE_CODES, optional: true },
+} as const;
+
+export default createApiRoute({
+  name: "explain-dish",
+  maxBodyBytes: 8_000,
+  // Explanations are opened one dish at a time
+  rateLimit: { capacity: 10, refillPerSecond: 0.2 },
+  schema,
+}, async (req, res, body) => {
+  const explainer = getDishExplainer();
+  if (!explainer) {
+    return sendError(res, "missing_api_key", "API key not configured");
+  }
+
+  const { originalName, englishTranslation, description, targetLanguage = "en" } = body;
+
+  try {
+    const explanation = await explainer.explain(
+      { originalName, englishTranslation, description: description ?? "" },
+      targetLanguage
+    );
+    return res.status(200).json(explanation);
+  } catch (error) {
+    console.error("Error explaining dish:", error);
+    return sendFailure(res, error, "Failed to explain dish");
+  }
+});
@@ -1,54 +1,41 @@
-import type { VercelRequest, VercelResponse } from "@vercel/node";
-import OpenAI from "openai";
 import { config } from "dotenv";
+import { PhotoStyle } from "../types.js";
+import { sendError, sendFailure } from "./_lib/apiErrors.js";
+import { createApiRoute } from "./_lib/apiRoute.js";
+import { IMAGE_RATE_LIMIT, IMAGE_RATE_LIMIT_NAME, generateDishImage } from "./_lib/dishImages.js";
+import { getImageProvider } from "./_lib/imageProviders/index.js";
 
 // Load .env.local for local development
 config({ path: ".env.local" });
 
-const IMAGE_GEN_MODEL = "gpt-image-1-mini";
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  if (!apiKey) {
-    return res.status(500).json({ error: "API key not configured" });
+// Everything but the style goes into the prompt, so text fields are sanitized and capped
+const schema = {
+  dishName: { type: "string", maxLength: 120, sanitize: true },
+  description: { type: "string", maxLength: 1000, sanitize: true },
+  style: { type: "string", maxLength: 20, oneOf: Object.values(PhotoStyle), optional: true },
+  instructions: { type: "string", maxLength: 300, sanitize: true, optional: true },
+  regenerate: { type: "boolean", optional: true },
+} as const;
+
+export default createApiRoute({
+  name: IMAGE_RATE_LIMIT_NAME,
+  maxBodyBytes: 8_000,
+  rateLimit: IMAGE_RATE_LIMIT,
+  schema,
+}, async (req, res, body) => {
+  const provider = getImageProvider();
+  if (!provider) {
+    return sendError(res, "missing_api_key", "API key not configured");
   }
 
   try {
-    const { dishName, description } = req.body;
-    if (!dishName || !description) {
-      return res.status(400).json({ error: "dishName and description are required" });
-    }
-
-    const prompt = `Realistic, appetizing professional photography of ${dishName}. Visual description: ${description}. Bright and modern aesthetic, soft natural daylight, professional food styling, high resolution, 8k.`;
-
-    const client = new OpenAI({ apiKey });
-    const response = await client.images.generate({
-      model: IMAGE_GEN_MODEL,
-      prompt,
-      size: "1024x1024",
-    });
-
-    // Log the response to see its structure
-    console.log("OpenAI response:", JSON.stringify(response, null, 2));
-
-    // Try both URL and b64_json
-    const imageUrl = response?.data?.[0]?.url;
-    const b64 = response?.data?.[0]?.b64_json;
-
-    if (imageUrl) {
-      return res.status(200).json({ imageUrl });
-    }
-    if (b64) {
-      return res.status(200).json({ imageUrl: `data:image/png;base64,${b64}` });
-    }
-
-    return res.status(500).json({ error: "No image data in response", response });
+    const { style = PhotoStyle.BRIGHT, ...request } = body;
+    // Responds with a short URL; the bytes are served by /api/image/:id
+    const result = await generateDishImage(provider, { ...request, style });
+    res.setHeader("X-Cache", result.cached ? "HIT" : "MISS");
+    return res.status(200).json(result);
   } catch (error) {
     console.error("Error generating image:", error);
-    return res.status(500).json({ error: "Failed to generate image" });
+    return sendFailure(res, error, "Failed to generate image");
   }
-}
+});
@@ -0,0 +1,101 @@
+import { config } from "dotenv";
+import { ImageBatchEvent, PhotoStyle } from "../types.js";
+import { classifyError, sendError } from "./_lib/apiErrors.js";
+import { createApiRoute } from "./_lib/apiRoute.js";
+import { IMAGE_RATE_LIMIT, IMAGE_RATE_LIMIT_NAME, generateDishImage } from "./_lib/dishImages.js";
+import { getImageProvider } from "./_lib/imageProviders/index.js";
+
+// Load .env.local for local development
+config({ path: ".env.local" });
+
+const MAX_BATCH_DISHES = 24;
+
+const DEFAULT_CONCURRENCY = 4;
+
+// IMAGE_BATCH_CONCURRENCY caps provider calls in flight per batch request
+const getBatchConcurrency = () => {
+  const value = Number(process.env.IMAGE_BATCH_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+};
+
+const schema = {
+  style: { type: "string", maxLength: 20, oneOf: Object.values(PhotoStyle), optional: true },
+  dishes: {
+    type: "array",
+    maxItems: MAX_BATCH_DISHES,
+    items: {
+      id: { type: "string", maxLength: 64 },
+      dishName: { type: "string", maxLength: 120, sanitize: true },
+      description: { type: "string", maxLength: 1000, sanitize: true, optional: true },
+    },
+  },
+} as const;
+
+/**
+ * Generates photos for many dishes in one request. Results stream back as
+ * NDJSON ImageBatchEvents as each dish finishes; a failed dish gets its own
+ * error event and does not stop the rest.
+ *
+ * Each dish takes one token from the shared image budget when it starts, the
+ * first one on admission. Dishes past the budget are not generated: they get a
+ * rate_limited error event whose retryAfterMs covers them and every earlier
+ * over-budget dish, so the client can send them again after one wait.
+ */
+export default createApiRoute({
+  name: IMAGE_RATE_LIMIT_NAME,
+  maxBodyBytes: 100_000,
+  rateLimit: IMAGE_RATE_LIMIT,
+  schema,
+}, async (req, res, body, { consumeRateLimit }) => {
+  const provider = getImageProvider();
+  if (!provider) {
+    return sendError(res, "missing_api_key", "API key not configured");
+  }
+
+  const { style = PhotoStyle.BRIGHT, dishes } = body;
+  res.status(200);
+  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  const send = (event: ImageBatchEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+  // Once the client goes away, dishes not yet started are skipped
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  let next = 0;
+  let overBudget = 0;
+  const worker = async () => {
+    while (!closed && next < dishes.length) {
+      const index = next++;
+      const dish = dishes[index];
+      if (index > 0) {
+        const decision = await consumeRateLimit();
+        if (!decision.allowed) {
+          // Later dishes wait for this one's token too, up to a full bucket
+          const queuedAhead = Math.min(overBudget++, IMAGE_RATE_LIMIT.capacity - 1);
+          const retryAfterMs = decision.retryAfterMs + Math.ceil((queuedAhead / IMAGE_RATE_LIMIT.refillPerSecond) * 1000);
+          send({ type: "error", dishId: dish.id, error: "Photo budget used up", code: "rate_limited", retryAfterMs });
+          continue;
+        }
+      }
+      try {
+        const { imageUrl, cached } = await generateDishImage(provider, {
+          dishName: dish.dishName,
+          description: dish.description ?? "",
+          style,
+        });
+        send({ type: "image", dishId: dish.id, imageUrl, cached });
+      } catch (error) {
+        console.error(`Error generating image for ${dish.dishName}:`, error);
+        const { code, message } = classifyError(error, "Failed to generate image");
+        send({ type: "error", dishId: dish.id, error: message, code });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(getBatchConcurrency(), dishes.length) }, worker));
+  send({ type: "done" });
+  return res.end();
+});
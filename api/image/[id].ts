@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { config } from "dotenv";
+import { sendError, sendFailure } from "../_lib/apiErrors.js";
+import { getBlobStore } from "../_lib/blobStore.js";
+import { IMAGE_RENDITIONS, getImageRendition, isImageId, isImageRendition } from "../_lib/imageStore.js";
+
+// Load .env.local for local development
+config({ path: ".env.local" });
+
+// Ids are content hashes, so a response never changes
+const IMMUTABLE = "public, max-age=31536000, immutable";
+
+/**
+ * Serves a generated image: GET /api/image/:id?size=original|card|thumb.
+ * `card` and `thumb` are downsized WebP renditions for the dish grid.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return sendError(res, "method_not_allowed", "Method not allowed");
+  }
+
+  const { id, size = "original" } = req.query;
+  if (!isImageId(id)) {
+    return sendError(res, "invalid_request", "Invalid image id");
+  }
+  if (!isImageRendition(size)) {
+    return sendError(res, "invalid_request", `size must be one of: ${IMAGE_RENDITIONS.join(", ")}`);
+  }
+
+  const etag = `"${id}-${size}"`;
+  res.setHeader("ETag", etag);
+  if (req.headers["if-none-match"] === etag) {
+    res.setHeader("Cache-Control", IMMUTABLE);
+    return res.status(304).end();
+  }
+
+  try {
+    const store = getBlobStore();
+    const image = store && await getImageRendition(store, id, size);
+    if (!image) {
+      return sendError(res, "not_found", "Image not found");
+    }
+    res.setHeader("Content-Type", image.contentType);
+    res.setHeader("Content-Length", String(image.data.length));
+    res.setHeader("Cache-Control", IMMUTABLE);
+    // SVG placeholders are served as-is; keep them from running scripts if opened directly
+    res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    return req.method === "HEAD" ? res.status(200).end() : res.status(200).send(image.data);
+  } catch (error) {
+    console.error("Error serving image:", error);
+    return sendFailure(res, error, "Failed to load image");
+  }
+}
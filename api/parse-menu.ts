@@ -1,81 +1,68 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { config } from "dotenv";
+import { MenuStreamEvent } from "../types.js";
+import { classifyError, sendError, sendFailure } from "./_lib/apiErrors.js";
+import { createApiRoute } from "./_lib/apiRoute.js";
+import { getMenuParser } from "./_lib/menuParsers/index.js";
+import { TARGET_LANGUAGE_CODES } from "./_lib/requestValidation.js";
+import { toMenuStreamEvents } from "./_lib/menuStream.js";
 
 // Load .env.local for local development
 config({ path: ".env.local" });
 
-const MENU_PARSING_MODEL = "gemini-3-flash-preview";
+// Formats the menu model accepts; the client re-encodes anything else to JPEG
+const SUPPORTED_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"] as const;
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
-  }
-
-  const apiKey = process.env.GEMINI_API_KEY?.trim();
-  if (!apiKey) {
-    return res.status(500).json({ error: "API key not configured" });
-  }
+// The client compresses photos to ~1.5 MB, about 2 MB once base64-encoded;
+// this leaves headroom while staying under Vercel's 4.5 MB body limit
+const MAX_IMAGE_CHARACTERS = 4_000_000;
 
-  try {
-    const { base64Image } = req.body;
-    if (!base64Image) {
-      return res.status(400).json({ error: "base64Image is required" });
-    }
+const schema = {
+  base64Image: { type: "string", maxLength: MAX_IMAGE_CHARACTERS, pattern: /^[A-Za-z0-9+/]+={0,2}$/ },
+  mimeType: { type: "string", maxLength: 20, oneOf: SUPPORTED_MIME_TYPES, optional: true },
+  targetLanguage: { type: "string", maxLength: 5, oneOf: TARGET_LANGUAGE_CODES, optional: true },
+  stream: { type: "boolean", optional: true },
+} as const;
 
-    const ai = new GoogleGenAI({ apiKey });
+export default createApiRoute({
+  name: "parse-menu",
+  maxBodyBytes: MAX_IMAGE_CHARACTERS + 1_000,
+  // Each parse is one large model call, so allow a few pages in a row, then one every 10 seconds
+  rateLimit: { capacity: 5, refillPerSecond: 0.1 },
+  schema,
+}, async (req, res, body) => {
+  const parser = getMenuParser();
+  if (!parser) {
+    return sendError(res, "missing_api_key", "API key not configured");
+  }
 
-    const responseSchema: Schema = {
-      type: Type.OBJECT,
-      properties: {
-        dishes: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              originalName: { type: Type.STRING, description: "The name of the item as it appears on the menu." },
-              englishTranslation: { type: Type.STRING, description: "English translation of the name." },
-              ingredientsOrDescription: { type: Type.STRING, description: "A concise visual description of the main ingredients and presentation." },
-              price: { type: Type.STRING, description: "The price of the item including currency symbol. If not found, leave empty." },
-              category: { type: Type.STRING, description: "The category or section this item belongs to (e.g., 'Starters', 'Mains', 'Drinks', 'Desserts')." },
-            },
-            required: ["originalName", "englishTranslation", "ingredientsOrDescription"],
-          },
-        },
-      },
-      required: ["dishes"],
-    };
+  const { base64Image, mimeType = "image/jpeg", targetLanguage = "en", stream } = body;
+  const image = { base64: base64Image, mimeType };
+  const options = { targetLanguage };
 
-    const response = await ai.models.generateContent({
-      model: MENU_PARSING_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: base64Image,
-            },
-          },
-          {
-            text: "Analyze this menu image. Identify all distinct items listed, including food and drinks. For each item, provide the original name, an English translation, the price (if available), the category/section it belongs to, and a short visual description based on its ingredients.",
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        systemInstruction: "You are a culinary expert assisting a food photographer. Extract all menu items accurately, including beverages.",
-      },
-    });
+  if (stream) {
+    // NDJSON: one MenuStreamEvent per line, flushed as each dish is recognized
+    res.status(200);
+    res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache");
+    const send = (event: MenuStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
 
-    const text = response.text;
-    if (!text) {
-      return res.status(500).json({ error: "No response from Gemini" });
+    try {
+      for await (const event of toMenuStreamEvents(parser.parseStream(image, options))) {
+        send(event);
+      }
+    } catch (error) {
+      console.error("Error streaming menu:", error);
+      const { code, message } = classifyError(error, "Failed to parse menu");
+      send({ type: "error", error: message, code });
     }
+    return res.end();
+  }
 
-    return res.status(200).json(JSON.parse(text));
+  try {
+    const result = await parser.parse(image, options);
+    return res.status(200).json(result);
   } catch (error) {
     console.error("Error parsing menu:", error);
-    return res.status(500).json({ error: "Failed to parse menu" });
+    return sendFailure(res, error, "Failed to parse menu");
   }
-}
+});
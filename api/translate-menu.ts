@@ -0,0 +1,50 @@
+import { config } from "dotenv";
+import { MenuTranslationResponse } from "../types.js";
+import { sendError, sendFailure } from "./_lib/apiErrors.js";
+import { createApiRoute } from "./_lib/apiRoute.js";
+import { getMenuTranslator } from "./_lib/menuTranslator.js";
+import { TARGET_LANGUAGE_CODES } from "./_lib/requestValidation.js";
+
+// Load .env.local for local development
+config({ path: ".env.local" });
+
+// One model call per request; larger menus are split into batches by the client
+const MAX_DISHES = 100;
+
+const schema = {
+  targetLanguage: { type: "string", maxLength: 5, oneOf: TARGET_LANGUAGE_CODES },
+  dishes: {
+    type: "array",
+    maxItems: MAX_DISHES,
+    items: {
+      id: { type: "string", maxLength: 64 },
+      originalName: { type: "string", maxLength: 120, sanitize: true },
+      englishTranslation: { type: "string", maxLength: 120, sanitize: true },
+      description: { type: "string", maxLength: 1000, sanitize: true, optional: true },
+    },
+  },
+} as const;
+
+export default createApiRoute({
+  name: "translate-menu",
+  maxBodyBytes: 500_000,
+  // A language switch sends one request per batch of dishes
+  rateLimit: { capacity: 10, refillPerSecond: 0.1 },
+  schema,
+}, async (req, res, body) => {
+  const translator = getMenuTranslator();
+  if (!translator) {
+    return sendError(res, "missing_api_key", "API key not configured");
+  }
+
+  const { targetLanguage } = body;
+  const dishes = body.dishes.map((dish) => ({ ...dish, description: dish.description ?? "" }));
+
+  try {
+    const result: MenuTranslationResponse = { translations: await translator.translate(dishes, targetLanguage) };
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error("Error translating menu:", error);
+    return sendFailure(res, error, "Failed to translate menu");
+  }
+});
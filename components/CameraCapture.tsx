@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FrameQuality, analyzeSource } from '../services/frameAnalysis';
+import { DEFAULT_CROP_QUAD, Quad, warpPerspective } from '../services/perspective';
+import PerspectiveCropper from './PerspectiveCropper';
+import { useI18n } from '../i18n';
+
+interface CameraCaptureProps {
+  // Called with one straightened JPEG per shot, in capture order
+  onSubmit: (pages: Blob[]) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+interface Shot {
+  id: string;
+  canvas: HTMLCanvasElement;
+  previewUrl: string;
+  quad: Quad;
+  quality: FrameQuality | null;
+}
+
+const ANALYSIS_INTERVAL_MS = 500;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode photo'))), 'image/jpeg', 0.92)
+  );
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onSubmit, onClose, onError }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const analysisCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [liveQuality, setLiveQuality] = useState<FrameQuality | null>(null);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [editingShotId, setEditingShotId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const editingShot = shots.find(shot => shot.id === editingShotId) ?? null;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let isCancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } } })
+      .then((mediaStream) => {
+        if (isCancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) videoRef.current.srcObject = mediaStream;
+      })
+      .catch((err) => {
+        console.error("Camera error:", err);
+        onError(t('error.camera'));
+        onClose();
+      });
+
+    return () => {
+      isCancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Sample the preview a couple of times per second; paused while cropping
+  useEffect(() => {
+    if (editingShotId) return;
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+      analysisCanvasRef.current ??= document.createElement('canvas');
+      setLiveQuality(analyzeSource(video, video.videoWidth, video.videoHeight, analysisCanvasRef.current));
+    }, ANALYSIS_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [editingShotId]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const shot: Shot = {
+      id: `shot-${Date.now()}`,
+      canvas,
+      previewUrl: canvas.toDataURL('image/jpeg', 0.8),
+      quad: DEFAULT_CROP_QUAD,
+      quality: analyzeSource(canvas, canvas.width, canvas.height, document.createElement('canvas')),
+    };
+    setShots(prev => [...prev, shot]);
+    setEditingShotId(shot.id);
+  };
+
+  const updateQuad = (id: string, quad: Quad) => {
+    setShots(prev => prev.map(shot => shot.id === id ? { ...shot, quad } : shot));
+  };
+
+  const removeShot = (id: string) => {
+    setShots(prev => prev.filter(shot => shot.id !== id));
+    if (editingShotId === id) setEditingShotId(null);
+  };
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    try {
+      const pages = await Promise.all(shots.map(shot => canvasToBlob(warpPerspective(shot.canvas, shot.quad))));
+      onSubmit(pages);
+    } catch (err) {
+      console.error("Error straightening photos:", err);
+      onError(t('error.processPhotos'));
+      setIsSubmitting(false);
+    }
+  };
+
+  const liveIssues = liveQuality?.issues ?? [];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black flex flex-col">
+      {/* Live preview stays mounted while cropping so the stream keeps running */}
+      <div className={`flex-1 relative overflow-hidden items-center justify-center ${editingShot ? 'hidden' : 'flex'}`}>
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        {/* Guide Frame */}
+        <div className="absolute inset-0 border-[40px] border-black/50 pointer-events-none flex items-center justify-center">
+          <div className={`border-2 w-full h-full rounded-lg transition-colors ${liveQuality && liveIssues.length === 0 ? 'border-emerald-400/80' : 'border-white/50'}`}></div>
+        </div>
+        {liveIssues.length > 0 && (
+          <div className="absolute top-6 inset-x-0 flex justify-center pointer-events-none">
+            <span className="px-4 py-2 rounded-full bg-amber-500/90 text-white text-sm font-medium shadow-lg">
+              {t(`camera.issue.${liveIssues[0]}`)}
+            </span>
+          </div>
+        )}
+        {shots.length > 0 && (
+          <div className="absolute bottom-4 inset-x-0 flex justify-center gap-2 px-4 overflow-x-auto">
+            {shots.map((shot, i) => (
+              <div key={shot.id} className="relative flex-shrink-0">
+                <button
+                  onClick={() => setEditingShotId(shot.id)}
+                  aria-label={t('camera.adjustPage', { page: i + 1 })}
+                  className="block w-14 h-14 rounded-lg overflow-hidden border-2 border-white/80"
+                >
+                  <img src={shot.previewUrl} alt="" className="w-full h-full object-cover" />
+                </button>
+                <button
+                  onClick={() => removeShot(shot.id)}
+                  aria-label={t('camera.removePage', { page: i + 1 })}
+                  className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-black/80 text-white text-xs leading-none flex items-center justify-center"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editingShot && (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-4 overflow-hidden">
+          <p className="text-white/80 text-sm">{t('camera.cropHint')}</p>
+          {editingShot.quality && editingShot.quality.issues.length > 0 && (
+            <p className="px-4 py-2 rounded-full bg-amber-500/90 text-white text-sm font-medium">
+              {t('camera.considerRetaking', { issue: t(`camera.issue.${editingShot.quality.issues[0]}`) })}
+            </p>
+          )}
+          <PerspectiveCropper
+            imageUrl={editingShot.previewUrl}
+            quad={editingShot.quad}
+            onChange={(quad) => updateQuad(editingShot.id, quad)}
+          />
+        </div>
+      )}
+
+      <div className="h-32 bg-black flex items-center justify-between px-8">
+        {editingShot ? (
+          <>
+            <button onClick={() => removeShot(editingShot.id)} className="text-white text-sm font-medium px-4 py-2 rounded-full hover:bg-white/10 transition-colors">
+              {t('camera.retake')}
+            </button>
+            <button onClick={() => updateQuad(editingShot.id, DEFAULT_CROP_QUAD)} className="text-white/70 text-sm font-medium px-4 py-2 rounded-full hover:bg-white/10 transition-colors">
+              {t('camera.resetCorners')}
+            </button>
+            <button onClick={() => setEditingShotId(null)} className="bg-emerald-500 text-white text-sm font-semibold px-5 py-2.5 rounded-full hover:bg-emerald-600 transition-colors">
+              {t('camera.keep')}
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={onClose} aria-label={t('camera.close')} className="text-white p-4 rounded-full hover:bg-white/10 transition-colors">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+
+            <button onClick={capture} aria-label={t('camera.takePhoto')} className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center hover:bg-white/20 transition-all active:scale-95">
+              <div className="w-16 h-16 bg-white rounded-full"></div>
+            </button>
+
+            {shots.length > 0 ? (
+              <button
+                onClick={submit}
+                disabled={isSubmitting}
+                className="bg-emerald-500 text-white text-sm font-semibold px-4 py-2.5 rounded-full hover:bg-emerald-600 disabled:opacity-60 transition-colors"
+              >
+                {isSubmitting ? t('camera.processing') : t('camera.done', { count: shots.length })}
+              </button>
+            ) : (
+              // Spacer to center button
+              <div className="w-16"></div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
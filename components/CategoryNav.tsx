@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../i18n';
+
+export interface CategoryNavItem {
+  id: string;
+  category: string;
+  count: number;
+}
+
+interface CategoryNavProps {
+  sections: CategoryNavItem[];
+  onSelect: (sectionId: string) => void;
+  // Mobile only: the original menu page is shown instead of the dishes
+  isMenuShown: boolean;
+  onShowMenu: () => void;
+}
+
+// Sections count as current once their heading passes below the header and this bar
+const SPY_ROOT_MARGIN = '-150px 0px -60% 0px';
+
+const CategoryNav: React.FC<CategoryNavProps> = ({ sections, onSelect, isMenuShown, onShowMenu }) => {
+  const { t } = useI18n();
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const sectionKey = sections.map(s => s.id).join(',');
+
+  // Follows the section being read, so the bar doubles as a "you are here" marker
+  useEffect(() => {
+    const visible = new Set<string>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            visible.add(entry.target.id);
+          } else {
+            visible.delete(entry.target.id);
+          }
+        }
+        const first = sections.find(s => visible.has(s.id));
+        if (first) setCurrentId(first.id);
+      },
+      { rootMargin: SPY_ROOT_MARGIN }
+    );
+    for (const section of sections) {
+      const element = document.getElementById(section.id);
+      if (element) observer.observe(element);
+    }
+    return () => observer.disconnect();
+  }, [sectionKey]);
+
+  // Keep the current chip in view without moving the page
+  useEffect(() => {
+    const strip = stripRef.current;
+    const chip = currentId ? strip?.querySelector<HTMLElement>(`[data-section="${currentId}"]`) : null;
+    if (!strip || !chip) return;
+    strip.scrollTo({ left: chip.offsetLeft - (strip.clientWidth - chip.offsetWidth) / 2, behavior: 'smooth' });
+  }, [currentId]);
+
+  // With no sections yet only the mobile menu button remains
+  return (
+    <nav
+      aria-label={t('sections.nav')}
+      className={`sticky top-20 z-40 mb-6 bg-white rounded-lg p-1 shadow-sm border border-gray-200 flex items-center gap-1 ${sections.length === 0 ? 'md:hidden' : ''}`}
+    >
+      <div ref={stripRef} className="relative flex-1 flex gap-1 overflow-x-auto [scrollbar-width:none]">
+        {sections.map(section => {
+          const isCurrent = !isMenuShown && section.id === currentId;
+          return (
+            <button
+              key={section.id}
+              data-section={section.id}
+              onClick={() => onSelect(section.id)}
+              aria-current={isCurrent ? 'location' : undefined}
+              className={`flex-shrink-0 px-3 py-1.5 text-sm font-medium rounded-md whitespace-nowrap transition-all ${isCurrent ? 'bg-stone-800 text-white shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+            >
+              {section.category}
+              <span className={`ml-1.5 text-xs ${isCurrent ? 'text-stone-300' : 'text-gray-400'}`}>{section.count}</span>
+            </button>
+          );
+        })}
+      </div>
+      {/* The source page lives in the sidebar on desktop; on mobile it is one tap away here */}
+      <button
+        onClick={onShowMenu}
+        aria-pressed={isMenuShown}
+        className={`md:hidden flex-shrink-0 px-3 py-1.5 text-sm font-medium rounded-md border-l border-gray-100 whitespace-nowrap transition-all ${isMenuShown ? 'bg-stone-800 text-white shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+      >
+        {t('results.tabMenu')}
+      </button>
+    </nav>
+  );
+};
+
+export default CategoryNav;
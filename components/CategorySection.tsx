@@ -0,0 +1,45 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+
+interface CategorySectionProps {
+  id: string;
+  category: string;
+  count: number;
+  isCollapsed: boolean;
+  onToggle: (id: string) => void;
+  children: React.ReactNode;
+}
+
+const CategorySection: React.FC<CategorySectionProps> = ({ id, category, count, isCollapsed, onToggle, children }) => {
+  const { t } = useI18n();
+
+  return (
+    // Clears the header and the sticky category bar when jumped to
+    <section id={id} className="mb-10 scroll-mt-36">
+      <button
+        onClick={() => onToggle(id)}
+        aria-expanded={!isCollapsed}
+        aria-controls={`${id}-dishes`}
+        className="w-full flex items-center gap-3 mb-4 text-left group"
+      >
+        <h2 className="text-xl font-serif font-bold text-stone-900">{category}</h2>
+        <span className="text-xs font-medium text-stone-400">{t.plural('sections.count', count)}</span>
+        <span className="flex-1 border-t border-gray-200"></span>
+        <span className="text-xs font-medium text-stone-400 group-hover:text-stone-700 transition-colors">
+          {isCollapsed ? t('sections.expand') : t('sections.collapse')}
+        </span>
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 text-stone-400 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+      {/* Collapsed cards are unmounted, so their photos are not requested until the section opens */}
+      {!isCollapsed && (
+        <div id={`${id}-dishes`} className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
+          {children}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default CategorySection;
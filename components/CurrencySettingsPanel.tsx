@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { CurrencySettings } from '../services/currencyService';
+import { useI18n } from '../i18n';
+
+interface CurrencySettingsPanelProps {
+  settings: CurrencySettings;
+  // The user's choice for this menu; null follows the detected currency
+  menuCurrency: string | null;
+  detectedMenuCurrency: string | null;
+  onMenuCurrencyChange: (currency: string | null) => void;
+  onChange: (settings: CurrencySettings) => void;
+}
+
+const CurrencySettingsPanel: React.FC<CurrencySettingsPanelProps> = ({
+  settings,
+  menuCurrency,
+  detectedMenuCurrency,
+  onMenuCurrencyChange,
+  onChange,
+}) => {
+  const { t } = useI18n();
+  const [isEditingRates, setIsEditingRates] = useState(false);
+  const currencies = Object.keys(settings.rates).sort();
+
+  const updateRate = (currency: string, value: string) => {
+    const rate = Number(value);
+    if (!Number.isFinite(rate) || rate <= 0) return;
+    onChange({ ...settings, rates: { ...settings.rates, [currency]: rate } });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 mt-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-bold text-stone-900 text-sm tracking-wide uppercase">{t('currency.heading')}</h3>
+        <select
+          value={settings.homeCurrency}
+          onChange={(e) => onChange({ ...settings, homeCurrency: e.target.value })}
+          className="text-sm font-medium bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-stone-700"
+        >
+          {currencies.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center justify-between gap-2 mt-3 text-xs text-stone-500">
+        {t('currency.menuCurrency')}
+        <select
+          value={menuCurrency ?? ''}
+          onChange={(e) => onMenuCurrencyChange(e.target.value || null)}
+          className="text-xs font-medium bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-stone-700"
+        >
+          <option value="">
+            {detectedMenuCurrency ? t('currency.detected', { currency: detectedMenuCurrency }) : t('currency.unknown')}
+          </option>
+          {currencies.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-stone-400 mt-1">{t('currency.ratesNote')}</p>
+
+      <button
+        onClick={() => setIsEditingRates(!isEditingRates)}
+        className="text-xs font-medium text-emerald-700 mt-3 hover:text-emerald-800"
+      >
+        {isEditingRates ? t('currency.hideRates') : t('currency.editRates')}
+      </button>
+
+      {isEditingRates && (
+        <div className="mt-3 max-h-56 overflow-y-auto space-y-1.5 pr-1">
+          <p className="text-[10px] font-bold tracking-widest text-stone-400 uppercase mb-2">{t('currency.unitsPerUsd')}</p>
+          {currencies.map(code => (
+            <label key={code} className="flex items-center justify-between gap-2 text-xs text-stone-600">
+              <span className="font-medium">{code}</span>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                defaultValue={settings.rates[code]}
+                onBlur={(e) => updateRate(code, e.target.value)}
+                disabled={code === 'USD'}
+                className="w-24 text-right bg-gray-50 border border-gray-200 rounded-md px-2 py-1 disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurrencySettingsPanel;
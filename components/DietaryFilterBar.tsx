@@ -0,0 +1,38 @@
+import React from 'react';
+import { DIETARY_FILTERS, DietaryFilter } from '../services/dietaryFilters';
+import { useI18n } from '../i18n';
+
+interface DietaryFilterBarProps {
+  activeFilters: DietaryFilter[];
+  onToggle: (filter: DietaryFilter) => void;
+  onClear: () => void;
+}
+
+const DietaryFilterBar: React.FC<DietaryFilterBarProps> = ({ activeFilters, onToggle, onClear }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      {DIETARY_FILTERS.map((filter) => {
+        const isActive = activeFilters.includes(filter);
+        return (
+          <button
+            key={filter}
+            onClick={() => onToggle(filter)}
+            aria-pressed={isActive}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${isActive ? 'bg-emerald-600 text-white border-emerald-600 shadow-sm' : 'bg-white text-stone-600 border-gray-200 hover:border-emerald-400 hover:text-emerald-700'}`}
+          >
+            {t(`dietary.${filter}`)}
+          </button>
+        );
+      })}
+      {activeFilters.length > 0 && (
+        <button onClick={onClear} className="text-xs font-medium text-stone-400 hover:text-stone-700 transition-colors ml-1">
+          {t('dietary.clear')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DietaryFilterBar;
@@ -1,28 +1,75 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Dish } from '../types';
+import { getDietaryBadges } from '../services/dietaryFilters';
+import { PriceContext, formatConvertedPrice } from '../services/currencyService';
+import { getDishDescription, getDishName } from '../services/menuTranslation';
+import { isImageInProgress } from '../services/dishReducer';
+import { RECOVERY_HINT_KEYS, getErrorMessageKey, getErrorRecovery } from '../services/errorRecovery';
+import { toImageRenditionUrl } from '../services/imageVariants';
+import { MessageKey, useI18n } from '../i18n';
+import RegenerateImageForm from './RegenerateImageForm';
+
+const BADGE_STYLES = {
+  diet: 'bg-green-50 text-green-700 border-green-100',
+  allergen: 'bg-amber-50 text-amber-700 border-amber-100',
+  spicy: 'bg-red-50 text-red-600 border-red-100',
+};
 
 interface DishCardProps {
   dish: Dish;
-  onGenerate: (dishId: string) => void;
+  // Reports viewport visibility; the parent schedules and prioritizes photo generation from it
+  onVisibilityChange: (dishId: string, isVisible: boolean) => void;
   onRetry: (dishId: string) => void;
+  onRegenerate: (dishId: string, description: string, instructions: string) => void;
+  onSelectVariant: (dishId: string, variantId: string) => void;
+  isHighlighted: boolean;
+  onHighlight: (dishId: string | null) => void;
+  onShowOnMenu: (dishId: string) => void;
+  onOpenDetails: (dishId: string) => void;
+  priceContext: PriceContext;
+  quantity: number;
+  onQuantityChange: (dishId: string, quantity: number) => void;
 }
 
-const DishCard: React.FC<DishCardProps> = ({ dish, onGenerate, onRetry }) => {
+const DishCard: React.FC<DishCardProps> = ({
+  dish,
+  onVisibilityChange,
+  onRetry,
+  onRegenerate,
+  onSelectVariant,
+  isHighlighted,
+  onHighlight,
+  onShowOnMenu,
+  onOpenDetails,
+  priceContext,
+  quantity,
+  onQuantityChange,
+}) => {
+  const { t } = useI18n();
   const cardRef = useRef<HTMLDivElement>(null);
+  const [isEditingPrompt, setIsEditingPrompt] = useState(false);
+  const name = getDishName(dish);
+  const dietaryBadges = getDietaryBadges(dish.dietary);
+  const convertedPrice = formatConvertedPrice(dish.parsedPrice, priceContext);
+  const status = dish.imageStatus;
+  const isBusy = isImageInProgress(dish);
+  const busyLabel = status === 'queued' ? t('dish.queued') : t('dish.preparing');
+  const variants = dish.imageVariants ?? [];
+  const selectedVariant = variants.find(v => v.id === dish.selectedVariantId);
+  const failureRecovery = dish.imageError ? getErrorRecovery(dish.imageError, 'image') : 'retry';
+  const failureHintKey = RECOVERY_HINT_KEYS[failureRecovery];
 
   useEffect(() => {
-    // If we already have an image, are loading, or have failed (and thus have attempted), don't observe.
-    if (dish.generatedImageUrl || dish.isLoadingImage || dish.hasAttemptedGeneration) {
+    // Once the dish has an image there is nothing left to schedule
+    if (dish.generatedImageUrl) {
       return;
     }
 
     const observer = new IntersectionObserver(
       (entries) => {
-        if (entries[0].isIntersecting) {
-          // Trigger generation when visible
-          onGenerate(dish.id);
-          observer.disconnect();
-        }
+        // Keeps reporting after generation is requested, so a queued card
+        // that scrolls away again can drop behind the ones still on screen
+        onVisibilityChange(dish.id, entries[0].isIntersecting);
       },
       {
         root: null, // viewport
@@ -38,21 +85,31 @@ const DishCard: React.FC<DishCardProps> = ({ dish, onGenerate, onRetry }) => {
     return () => {
       observer.disconnect();
     };
-  }, [dish.id, dish.generatedImageUrl, dish.isLoadingImage, dish.hasAttemptedGeneration, onGenerate]);
+  }, [dish.id, dish.generatedImageUrl, onVisibilityChange]);
 
   return (
-    <div ref={cardRef} className="group bg-white rounded-xl overflow-hidden border border-gray-100 shadow-sm hover:shadow-lg transition-all duration-300 flex flex-col h-full transform hover:-translate-y-1">
+    <div
+      ref={cardRef}
+      id={`dish-card-${dish.id}`}
+      onMouseEnter={() => onHighlight(dish.id)}
+      onMouseLeave={() => onHighlight(null)}
+      onClick={() => onHighlight(dish.id)}
+      className={`group bg-white rounded-xl overflow-hidden border shadow-sm hover:shadow-lg transition-all duration-300 flex flex-col h-full transform hover:-translate-y-1 ${isHighlighted ? 'border-emerald-400 ring-2 ring-emerald-400/40' : 'border-gray-100'}`}
+    >
       {/* Image Area */}
-      <div className="relative w-full aspect-[4/3] bg-gray-50 overflow-hidden">
+      <div
+        className={`relative w-full aspect-[4/3] bg-gray-50 overflow-hidden ${dish.generatedImageUrl ? 'cursor-zoom-in' : ''}`}
+        onClick={() => dish.generatedImageUrl && onOpenDetails(dish.id)}
+      >
         {dish.generatedImageUrl ? (
           <img 
-            src={dish.generatedImageUrl} 
-            alt={dish.englishTranslation} 
+            src={toImageRenditionUrl(dish.generatedImageUrl, 'card')}
+            alt={name}
             className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
           />
         ) : (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-6 text-center">
-            {dish.isLoadingImage ? (
+            {isBusy ? (
               // Skeleton Loader
               <>
                  <div className="absolute inset-0 bg-gradient-to-r from-gray-100 via-gray-200 to-gray-100 animate-pulse" />
@@ -60,13 +117,13 @@ const DishCard: React.FC<DishCardProps> = ({ dish, onGenerate, onRetry }) => {
                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8 text-gray-400 mb-2">
                         <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
                      </svg>
-                     <span className="text-xs font-medium text-gray-500">Preparing...</span>
+                     <span className="text-xs font-medium text-gray-500">{busyLabel}</span>
                  </div>
               </>
-            ) : !dish.hasAttemptedGeneration ? (
+            ) : status !== 'failed' ? (
                // Waiting to scroll into view
                <div className="flex flex-col items-center opacity-40">
-                  <span className="text-xs text-gray-400 font-medium tracking-wide uppercase">Scroll to view</span>
+                  <span className="text-xs text-gray-400 font-medium tracking-wide uppercase">{t('dish.scrollToView')}</span>
                </div>
             ) : (
               // Failed state
@@ -74,7 +131,12 @@ const DishCard: React.FC<DishCardProps> = ({ dish, onGenerate, onRetry }) => {
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1} stroke="currentColor" className="w-10 h-10 mb-2 text-gray-300">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.008v.008h-.008V15.75z" />
                 </svg>
-                <span className="text-xs text-gray-400 font-medium">Image unavailable</span>
+                <span className="text-xs text-gray-400 font-medium">
+                  {t(dish.imageError ? getErrorMessageKey(dish.imageError, 'dish.imageUnavailable') : 'dish.imageUnavailable')}
+                </span>
+                {failureHintKey && (
+                  <span className="text-[11px] text-gray-400 mt-1 line-clamp-2">{t(failureHintKey)}</span>
+                )}
               </>
             )}
           </div>
@@ -82,11 +144,60 @@ const DishCard: React.FC<DishCardProps> = ({ dish, onGenerate, onRetry }) => {
         
         {dish.generatedImageUrl && (
             <div className="absolute top-3 right-3 bg-black/50 backdrop-blur-md text-white text-[9px] font-bold px-2 py-1 rounded-full uppercase tracking-wider shadow-sm">
-                AI Generated
+                {t('dish.aiGenerated')}
             </div>
         )}
+
+        {dish.generatedImageUrl && isBusy && (
+          // Regenerating: keep the current image visible underneath
+          <div className="absolute inset-0 bg-white/60 backdrop-blur-[2px] flex flex-col items-center justify-center gap-2">
+            <span className="w-6 h-6 border-2 border-stone-700 rounded-full border-t-transparent animate-spin"></span>
+            <span className="text-xs font-medium text-stone-700">{busyLabel}</span>
+          </div>
+        )}
+
+        {status === 'ready' && (
+          <button
+            onClick={(e) => { e.stopPropagation(); setIsEditingPrompt(prev => !prev); }}
+            aria-label={t('regenerate.open')}
+            title={t('regenerate.open')}
+            className="absolute top-3 left-3 p-1.5 rounded-full bg-black/50 backdrop-blur-md text-white hover:bg-black/70 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+            </svg>
+          </button>
+        )}
       </div>
 
+      {variants.length > 1 && (
+        <div className="flex gap-1.5 px-5 pt-3 overflow-x-auto" onClick={(e) => e.stopPropagation()}>
+          {variants.map((variant, i) => (
+            <button
+              key={variant.id}
+              onClick={() => onSelectVariant(dish.id, variant.id)}
+              aria-label={t('regenerate.selectVariant', { number: i + 1 })}
+              aria-pressed={variant.id === dish.selectedVariantId}
+              title={variant.instructions}
+              className={`flex-shrink-0 w-10 h-10 rounded-md overflow-hidden border-2 transition-colors ${variant.id === dish.selectedVariantId ? 'border-emerald-500' : 'border-transparent opacity-70 hover:opacity-100'}`}
+            >
+              <img src={toImageRenditionUrl(variant.imageUrl, 'thumb')} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isEditingPrompt && (
+        <RegenerateImageForm
+          initialDescription={selectedVariant?.description ?? dish.description}
+          onCancel={() => setIsEditingPrompt(false)}
+          onSubmit={(description, instructions) => {
+            setIsEditingPrompt(false);
+            onRegenerate(dish.id, description, instructions);
+          }}
+        />
+      )}
+
       <div className="p-5 flex flex-col flex-grow">
         <div className="mb-4">
           {dish.category && (
@@ -96,39 +207,114 @@ const DishCard: React.FC<DishCardProps> = ({ dish, onGenerate, onRetry }) => {
           )}
           <div className="flex justify-between items-start gap-2 mb-1">
             <h3 className="font-serif text-lg font-bold text-gray-900 leading-tight">
-                {dish.englishTranslation}
+                {name}
             </h3>
             {dish.price && (
-                <span className="shrink-0 bg-emerald-50 text-emerald-700 text-xs font-bold px-2 py-1 rounded-md border border-emerald-100">
-                    {dish.price}
-                </span>
+                <div className="shrink-0 flex flex-col items-end gap-1">
+                  <span className="bg-emerald-50 text-emerald-700 text-xs font-bold px-2 py-1 rounded-md border border-emerald-100">
+                      {dish.price}
+                  </span>
+                  {dish.parsedPrice?.isMarketPrice ? (
+                    <span className="text-[11px] font-medium text-stone-400">{t('dish.marketPrice')}</span>
+                  ) : convertedPrice && (
+                    <span className="text-[11px] font-medium text-stone-400">{convertedPrice}</span>
+                  )}
+                </div>
             )}
           </div>
           
-          {dish.originalName !== dish.englishTranslation && (
+          {dish.originalName !== name && (
             <p className="text-sm text-stone-500 font-medium italic mb-2 opacity-90">
               "{dish.originalName}"
             </p>
           )}
+          {dish.boundingBox && (
+            // Mobile only: the menu sidebar is visible next to the grid on desktop
+            <button
+              onClick={(e) => { e.stopPropagation(); onShowOnMenu(dish.id); }}
+              className="md:hidden text-xs font-medium text-emerald-700 flex items-center gap-1"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 10.5a3 3 0 11-6 0 3 3 0 016 0z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 10.5c0 7.142-7.5 11.25-7.5 11.25S4.5 17.642 4.5 10.5a7.5 7.5 0 1115 0z" />
+              </svg>
+              {t('dish.showOnMenu')}
+            </button>
+          )}
           <p className="text-sm text-gray-500 line-clamp-3 leading-relaxed mt-3">
-            {dish.description}
+            {getDishDescription(dish)}
           </p>
+          <button
+            onClick={(e) => { e.stopPropagation(); onOpenDetails(dish.id); }}
+            className="text-xs font-medium text-emerald-700 hover:text-emerald-800 mt-2"
+          >
+            {t('dish.viewDetails')}
+          </button>
+          {dietaryBadges.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {dietaryBadges.map(badge => (
+                <span
+                  key={badge.id}
+                  title={badge.isUncertain ? t('badge.uncertain') : undefined}
+                  className={`text-[10px] font-semibold px-2 py-0.5 rounded-full border ${BADGE_STYLES[badge.kind]} ${badge.isUncertain ? 'opacity-60 border-dashed' : ''}`}
+                >
+                  {badge.kind === 'spicy' ? badge.label : t(`badge.${badge.id}` as MessageKey)}{badge.isUncertain && '?'}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
-        {/* Retry Button only if failed */}
-        {!dish.generatedImageUrl && !dish.isLoadingImage && dish.hasAttemptedGeneration && (
-          <div className="mt-auto pt-4 border-t border-gray-50">
+        <div className="mt-auto pt-4 border-t border-gray-50 flex flex-col gap-2">
+          {/* Order Stepper */}
+          {quantity > 0 ? (
+            <div className="flex items-center justify-between bg-emerald-50 rounded-lg border border-emerald-100" onClick={(e) => e.stopPropagation()}>
+              <button
+                onClick={() => onQuantityChange(dish.id, quantity - 1)}
+                aria-label={t('dish.decrease')}
+                className="px-4 py-2 text-emerald-700 font-bold hover:bg-emerald-100 rounded-l-lg transition-colors"
+              >
+                −
+              </button>
+              <span className="text-xs font-bold text-emerald-800 uppercase tracking-wide">{t('dish.inOrder', { count: quantity })}</span>
+              <button
+                onClick={() => onQuantityChange(dish.id, quantity + 1)}
+                aria-label={t('dish.increase')}
+                className="px-4 py-2 text-emerald-700 font-bold hover:bg-emerald-100 rounded-r-lg transition-colors"
+              >
+                +
+              </button>
+            </div>
+          ) : (
             <button
-              onClick={() => onRetry(dish.id)}
+              onClick={(e) => { e.stopPropagation(); onQuantityChange(dish.id, 1); }}
+              className="w-full py-2 px-4 rounded-lg font-medium text-xs uppercase tracking-wide bg-stone-800 hover:bg-stone-900 text-white transition-colors"
+            >
+              {t('dish.addToOrder')}
+            </button>
+          )}
+
+          {/* Recovery for a failed photo: reword a refused prompt, otherwise retry */}
+          {status === 'failed' && failureRecovery === 'edit_prompt' && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setIsEditingPrompt(true); }}
+              className="w-full py-2 px-4 rounded-lg font-medium text-xs uppercase tracking-wide bg-gray-50 hover:bg-gray-100 text-gray-600 transition-colors"
+            >
+              {t('recovery.edit_prompt')}
+            </button>
+          )}
+          {status === 'failed' && failureRecovery !== 'edit_prompt' && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onRetry(dish.id); }}
               className="w-full py-2 px-4 rounded-lg font-medium text-xs uppercase tracking-wide bg-gray-50 hover:bg-gray-100 text-gray-600 transition-colors flex items-center justify-center gap-2"
             >
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
               </svg>
-              Try Again
+              {t('dish.tryAgain')}
             </button>
-          </div>
-        )}
+          )}
+        </div>
       </div>
     </div>
   );
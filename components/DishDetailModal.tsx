@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Dish, DishExplanation, RequestErrorCode } from '../types';
+import { explainDish, getErrorCode } from '../services/geminiService';
+import { RECOVERY_HINT_KEYS, getErrorMessageKey, getErrorRecovery } from '../services/errorRecovery';
+import { PriceContext, formatConvertedPrice } from '../services/currencyService';
+import { getDishDescription, getDishName, guessSpeechLanguage } from '../services/menuTranslation';
+import { useI18n } from '../i18n';
+
+interface DishDetailModalProps {
+  dish: Dish;
+  priceContext: PriceContext;
+  onClose: () => void;
+  // Stores the explanation on the dish so it is saved with the session and not fetched twice
+  onExplanationLoaded: (dishId: string, explanation: DishExplanation) => void;
+}
+
+const canSpeak = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+const DishDetailModal: React.FC<DishDetailModalProps> = ({ dish, priceContext, onClose, onExplanationLoaded }) => {
+  const { t, language } = useI18n();
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [explainError, setExplainError] = useState<RequestErrorCode | null>(null);
+
+  const name = getDishName(dish);
+  const convertedPrice = formatConvertedPrice(dish.parsedPrice, priceContext);
+  // An explanation in another language is stale after a language switch
+  const explanation = dish.explanation?.language === language ? dish.explanation : undefined;
+  // The explain button doubles as the retry, so only a hint is needed beside the message
+  const explainHintKey = explainError && RECOVERY_HINT_KEYS[getErrorRecovery(explainError, 'explain')];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Stop reading the name aloud once the modal closes
+  useEffect(() => () => {
+    if (canSpeak) window.speechSynthesis.cancel();
+  }, []);
+
+  const handleExplain = async () => {
+    setIsExplaining(true);
+    setExplainError(null);
+    try {
+      onExplanationLoaded(dish.id, await explainDish(dish, language));
+    } catch (err) {
+      console.error("Error explaining dish:", err);
+      setExplainError(getErrorCode(err));
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  const speakName = () => {
+    const utterance = new SpeechSynthesisUtterance(dish.originalName);
+    // The explanation names the language; until then the script is a good enough guess
+    const explainedCode = dish.explanation?.originalLanguageCode;
+    const languageCode = explainedCode && explainedCode !== 'und' ? explainedCode : guessSpeechLanguage(dish.originalName);
+    if (languageCode) utterance.lang = languageCode;
+    utterance.rate = 0.85;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const sections: { label: string; text: string }[] = explanation
+    ? [
+        { label: t('detail.origin'), text: explanation.origin },
+        { label: t('detail.howToEat'), text: explanation.howToEat },
+        { label: t('detail.flavor'), text: explanation.flavor },
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-[65] bg-black/60 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-6" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={name}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white w-full sm:max-w-2xl max-h-[92vh] overflow-y-auto rounded-t-2xl sm:rounded-2xl shadow-2xl animate-fade-in-up"
+      >
+        <div className="relative w-full aspect-[4/3] bg-gray-100">
+          {dish.generatedImageUrl ? (
+            <img src={dish.generatedImageUrl} alt={name} className="w-full h-full object-cover" />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">{t('dish.imageUnavailable')}</div>
+          )}
+          <button
+            onClick={onClose}
+            aria-label={t('detail.close')}
+            className="absolute top-3 right-3 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 sm:p-8">
+          {dish.category && (
+            <span className="text-[10px] font-bold tracking-widest text-stone-400 uppercase mb-1 block">{dish.category}</span>
+          )}
+          <div className="flex justify-between items-start gap-4">
+            <h2 className="font-serif text-2xl sm:text-3xl font-bold text-gray-900 leading-tight">{name}</h2>
+            {dish.price && (
+              <div className="shrink-0 flex flex-col items-end gap-1">
+                <span className="bg-emerald-50 text-emerald-700 text-sm font-bold px-2.5 py-1 rounded-md border border-emerald-100">{dish.price}</span>
+                {dish.parsedPrice?.isMarketPrice ? (
+                  <span className="text-xs font-medium text-stone-400">{t('dish.marketPrice')}</span>
+                ) : convertedPrice && (
+                  <span className="text-xs font-medium text-stone-400">{convertedPrice}</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3 mt-2">
+            <p className="text-base text-stone-500 font-medium italic">"{dish.originalName}"</p>
+            {canSpeak && (
+              <button
+                onClick={speakName}
+                aria-label={t('detail.listen')}
+                title={t('detail.listen')}
+                className="p-1.5 rounded-full text-emerald-700 hover:bg-emerald-50 transition-colors"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z" />
+                </svg>
+              </button>
+            )}
+          </div>
+          {explanation?.pronunciation && (
+            <p className="text-sm text-stone-400 mt-1">
+              {t('detail.pronunciation')}: <span className="font-medium text-stone-600">{explanation.pronunciation}</span>
+            </p>
+          )}
+
+          <p className="text-sm text-gray-600 leading-relaxed mt-5">{getDishDescription(dish)}</p>
+
+          <div className="mt-6 pt-6 border-t border-gray-100">
+            {explanation ? (
+              <dl className="space-y-4">
+                {sections.map(section => (
+                  <div key={section.label}>
+                    <dt className="text-[10px] font-bold tracking-widest text-stone-400 uppercase mb-1">{section.label}</dt>
+                    <dd className="text-sm text-gray-700 leading-relaxed">{section.text}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <div className="flex flex-col items-start gap-2">
+                <button
+                  onClick={handleExplain}
+                  disabled={isExplaining}
+                  className="py-2 px-4 rounded-lg font-medium text-xs uppercase tracking-wide bg-stone-800 hover:bg-stone-900 text-white transition-colors disabled:opacity-60 flex items-center gap-2"
+                >
+                  {isExplaining && <span className="w-3.5 h-3.5 border-2 border-white rounded-full border-t-transparent animate-spin"></span>}
+                  {isExplaining ? t('detail.explaining') : t('detail.explain')}
+                </button>
+                {explainError && (
+                  <p className="text-xs font-medium text-red-600">
+                    {t(getErrorMessageKey(explainError, 'detail.explainError'))}
+                    {explainHintKey && <span className="block font-normal text-red-500 mt-0.5">{t(explainHintKey)}</span>}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DishDetailModal;
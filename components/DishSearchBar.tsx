@@ -0,0 +1,46 @@
+import React from 'react';
+import { DISH_SORTS, DishSort, isDishSort } from '../services/dishSections';
+import { useI18n } from '../i18n';
+
+interface DishSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  sort: DishSort;
+  onSortChange: (sort: DishSort) => void;
+}
+
+const DishSearchBar: React.FC<DishSearchBarProps> = ({ query, onQueryChange, sort, onSortChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4">
+      <div className="relative flex-1 min-w-[200px]">
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4 text-stone-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+        </svg>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder={t('search.placeholder')}
+          aria-label={t('search.placeholder')}
+          className="w-full pl-9 pr-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-stone-800 placeholder:text-stone-400 focus:outline-none focus:border-emerald-400"
+        />
+      </div>
+      <label className="flex items-center gap-1.5 text-xs text-stone-400">
+        {t('sort.label')}
+        <select
+          value={sort}
+          onChange={(e) => isDishSort(e.target.value) && onSortChange(e.target.value)}
+          className="bg-white border border-gray-200 rounded-lg px-2 py-1.5 text-stone-600 font-medium focus:outline-none focus:border-emerald-400 cursor-pointer"
+        >
+          {DISH_SORTS.map(option => (
+            <option key={option} value={option}>{t(`sort.${option}`)}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default DishSearchBar;
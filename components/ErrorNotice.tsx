@@ -0,0 +1,35 @@
+import React from 'react';
+
+export interface ErrorNoticeContent {
+  message: string;
+  // What the user can do about it, e.g. "Wait a minute before trying again."
+  hint?: string;
+  action?: { label: string; run: () => void };
+}
+
+interface ErrorNoticeProps {
+  notice: ErrorNoticeContent;
+  className?: string;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ notice, className = '' }) => (
+  <div className={`bg-red-50 text-red-600 p-4 rounded-xl border border-red-100 flex items-center gap-3 ${className}`}>
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 flex-shrink-0">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008h-.008V15.75z" />
+    </svg>
+    <div className="flex-1 text-left">
+      <p className="text-sm font-medium">{notice.message}</p>
+      {notice.hint && <p className="text-xs text-red-500 mt-0.5">{notice.hint}</p>}
+    </div>
+    {notice.action && (
+      <button
+        onClick={notice.action.run}
+        className="flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-semibold uppercase tracking-wide bg-white border border-red-200 text-red-700 hover:bg-red-100 transition-colors"
+      >
+        {notice.action.label}
+      </button>
+    )}
+  </div>
+);
+
+export default ErrorNotice;
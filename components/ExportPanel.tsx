@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Dish, PhotoStyle } from '../types';
+import { EXPORT_LAYOUTS, ExportLayout, createExportDocument, downloadBlob, toExportFileName } from '../services/menuExport';
+import { renderMenuPdf, renderMenuPoster } from '../services/menuCanvas';
+import { renderMenuHtml } from '../services/menuHtml';
+import { useI18n } from '../i18n';
+
+type ExportFormat = 'pdf' | 'html' | 'png';
+
+interface ExportPanelProps {
+  dishes: Dish[];
+  title: string;
+  style: PhotoStyle;
+}
+
+const FORMATS: ExportFormat[] = ['pdf', 'html', 'png'];
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ dishes, title, style }) => {
+  const { t, language } = useI18n();
+  const [layout, setLayout] = useState<ExportLayout>('grid');
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    setError(null);
+    try {
+      const menu = createExportDocument(dishes, {
+        title,
+        style,
+        language,
+        uncategorizedLabel: t('export.uncategorized'),
+        notice: t('export.notice'),
+      });
+      if (format === 'pdf') {
+        downloadBlob(await renderMenuPdf(menu, layout), toExportFileName(title, 'pdf'));
+      } else if (format === 'html') {
+        const html = await renderMenuHtml(menu, layout);
+        downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), toExportFileName(title, 'html'));
+      } else {
+        downloadBlob(await renderMenuPoster(menu), toExportFileName(title, 'png'));
+      }
+    } catch (err) {
+      console.error("Error exporting menu:", err);
+      setError(t('export.error'));
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 mt-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-bold text-stone-900 text-sm tracking-wide uppercase">{t('export.heading')}</h3>
+        <select
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as ExportLayout)}
+          aria-label={t('export.layout')}
+          className="text-sm font-medium bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-stone-700"
+        >
+          {EXPORT_LAYOUTS.map(option => (
+            <option key={option} value={option}>{t(`export.layout.${option}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        {FORMATS.map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={busyFormat !== null}
+            className="py-2 rounded-lg text-xs font-semibold uppercase tracking-wide bg-stone-800 hover:bg-stone-900 text-white transition-colors disabled:opacity-50"
+          >
+            {busyFormat === format ? '…' : t(`export.format.${format}`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-stone-400 mt-2">{t('export.hint')}</p>
+      <p className="text-[11px] text-stone-400 mt-1">{t('export.pdfNote')}</p>
+      {error && <p className="text-xs font-medium text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Dish, MenuPage } from '../types';
+import { getDishName } from '../services/menuTranslation';
+import { useI18n } from '../i18n';
+
+interface MenuPageCarouselProps {
+  pages: MenuPage[];
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  dishes: Dish[];
+  highlightedDishId: string | null;
+  onRegionSelect: (dishId: string) => void;
+}
+
+const MenuPageCarousel: React.FC<MenuPageCarouselProps> = ({
+  pages,
+  activeIndex,
+  onActiveIndexChange,
+  dishes,
+  highlightedDishId,
+  onRegionSelect,
+}) => {
+  const { t } = useI18n();
+  const activePage = pages[activeIndex];
+  if (!activePage) return null;
+
+  const pageDishes = dishes.filter(d => d.pageId === activePage.id && d.boundingBox);
+
+  const hasPrevious = activeIndex > 0;
+  const hasNext = activeIndex < pages.length - 1;
+
+  return (
+    <div>
+      <div className="relative rounded-xl overflow-hidden bg-gray-50 border border-gray-100">
+        <img src={activePage.imageUrl} alt={t('carousel.page', { page: activeIndex + 1 })} className="w-full h-auto object-contain" />
+
+        {/* Dish regions: boxes are normalized, so percentages line up with the scaled image */}
+        {pageDishes.map(dish => {
+          const box = dish.boundingBox!;
+          const isHighlighted = dish.id === highlightedDishId;
+          return (
+            <button
+              key={dish.id}
+              onClick={() => onRegionSelect(dish.id)}
+              aria-label={t('carousel.showDish', { name: getDishName(dish) })}
+              title={getDishName(dish)}
+              style={{
+                left: `${box.x * 100}%`,
+                top: `${box.y * 100}%`,
+                width: `${box.width * 100}%`,
+                height: `${box.height * 100}%`,
+              }}
+              className={`absolute rounded-sm transition-all ${isHighlighted ? 'bg-emerald-400/25 ring-2 ring-emerald-500 shadow-lg' : 'hover:bg-emerald-400/10 hover:ring-1 hover:ring-emerald-400'}`}
+            />
+          );
+        })}
+
+        {pages.length > 1 && (
+          <>
+            <button
+              onClick={() => onActiveIndexChange(activeIndex - 1)}
+              disabled={!hasPrevious}
+              aria-label={t('carousel.previous')}
+              className="absolute left-2 top-1/2 -translate-y-1/2 bg-white/80 backdrop-blur-md p-1.5 rounded-full shadow-sm text-stone-700 hover:bg-white transition-all disabled:opacity-0"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+              </svg>
+            </button>
+            <button
+              onClick={() => onActiveIndexChange(activeIndex + 1)}
+              disabled={!hasNext}
+              aria-label={t('carousel.next')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 bg-white/80 backdrop-blur-md p-1.5 rounded-full shadow-sm text-stone-700 hover:bg-white transition-all disabled:opacity-0"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+              </svg>
+            </button>
+          </>
+        )}
+      </div>
+
+      {pages.length > 1 && (
+        <div className="flex items-center justify-center gap-1.5 mt-3">
+          {pages.map((page, index) => (
+            <button
+              key={page.id}
+              onClick={() => onActiveIndexChange(index)}
+              aria-label={`Go to page ${index + 1}`}
+              className={`h-1.5 rounded-full transition-all ${index === activeIndex ? 'w-5 bg-stone-800' : 'w-1.5 bg-stone-300 hover:bg-stone-400'}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MenuPageCarousel;
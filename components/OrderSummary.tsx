@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { OrderSettings, OrderTotals } from '../services/orderService';
+import { PriceContext, convertAmount, formatMoney } from '../services/currencyService';
+import { getDishName } from '../services/menuTranslation';
+import { useI18n } from '../i18n';
+
+interface OrderSummaryProps {
+  totals: OrderTotals;
+  settings: OrderSettings;
+  priceContext: PriceContext;
+  onSettingsChange: (settings: OrderSettings) => void;
+  onQuantityChange: (dishId: string, quantity: number) => void;
+  onClear: () => void;
+}
+
+const OrderSummary: React.FC<OrderSummaryProps> = ({
+  totals,
+  settings,
+  priceContext,
+  onSettingsChange,
+  onQuantityChange,
+  onClear,
+}) => {
+  const { t } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isShowingStaffView, setIsShowingStaffView] = useState(false);
+
+  if (totals.itemCount === 0) return null;
+
+  const { menuCurrency, homeCurrency, rates } = priceContext;
+  const format = (amount: number) => (menuCurrency ? formatMoney(amount, menuCurrency) : amount.toFixed(2));
+  const convertedTotal = menuCurrency && menuCurrency !== homeCurrency
+    ? convertAmount(totals.total, menuCurrency, homeCurrency, rates)
+    : null;
+
+  const updateSetting = (key: keyof OrderSettings, value: string) => {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) return;
+    onSettingsChange({ ...settings, [key]: number });
+  };
+
+  return (
+    <>
+      {/* Staff View: large original-language names to point at when ordering */}
+      {isShowingStaffView && (
+        <div className="fixed inset-0 z-[70] bg-white overflow-y-auto p-6 sm:p-10">
+          <button
+            onClick={() => setIsShowingStaffView(false)}
+            aria-label={t('order.close')}
+            className="absolute top-4 right-4 p-2 rounded-full text-stone-500 hover:bg-gray-100 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+          <div className="max-w-2xl mx-auto space-y-8">
+            {totals.groups.map(group => (
+              <div key={group.category}>
+                <h3 className="text-xs font-bold tracking-widest text-stone-400 uppercase mb-3">{group.category}</h3>
+                <ul className="space-y-4">
+                  {group.lines.map(line => (
+                    <li key={line.dish.id} className="flex items-baseline justify-between gap-4 border-b border-gray-100 pb-3">
+                      <div>
+                        <p className="text-3xl font-bold text-stone-900">{line.dish.originalName}</p>
+                        <p className="text-sm text-stone-500 mt-1">{getDishName(line.dish)}</p>
+                      </div>
+                      <span className="text-3xl font-bold text-emerald-700 shrink-0">× {line.quantity}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="fixed bottom-0 inset-x-0 z-50 px-4 pb-4 pointer-events-none">
+        <div className="max-w-xl mx-auto bg-stone-900 text-white rounded-2xl shadow-2xl pointer-events-auto overflow-hidden">
+          {isExpanded && (
+            <div className="max-h-[60vh] overflow-y-auto p-5 border-b border-white/10">
+              {totals.groups.map(group => (
+                <div key={group.category} className="mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-[10px] font-bold tracking-widest text-stone-400 uppercase">{group.category}</h4>
+                    <span className="text-xs text-stone-400">{format(group.subtotal)}</span>
+                  </div>
+                  <ul className="space-y-2">
+                    {group.lines.map(line => (
+                      <li key={line.dish.id} className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{getDishName(line.dish)}</p>
+                          <p className="text-xs text-stone-400 truncate">{line.dish.originalName}</p>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                          <div className="flex items-center bg-white/10 rounded-lg">
+                            <button onClick={() => onQuantityChange(line.dish.id, line.quantity - 1)} className="px-2 py-1 hover:bg-white/10 rounded-l-lg" aria-label={t('dish.decrease')}>−</button>
+                            <span className="text-sm w-6 text-center">{line.quantity}</span>
+                            <button onClick={() => onQuantityChange(line.dish.id, line.quantity + 1)} className="px-2 py-1 hover:bg-white/10 rounded-r-lg" aria-label={t('dish.increase')}>+</button>
+                          </div>
+                          <span className="text-sm w-20 text-right">
+                            {line.lineTotal === null ? '—' : format(line.lineTotal)}
+                          </span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+
+              <div className="grid grid-cols-3 gap-3 mt-5">
+                <label className="text-xs text-stone-400">
+                  {t('order.taxPercent')}
+                  <input type="number" min="0" step="0.5" value={settings.taxPercent} onChange={(e) => updateSetting('taxPercent', e.target.value)} className="mt-1 w-full bg-white/10 rounded-lg px-2 py-1.5 text-sm text-white" />
+                </label>
+                <label className="text-xs text-stone-400">
+                  {t('order.tipPercent')}
+                  <input type="number" min="0" step="1" value={settings.tipPercent} onChange={(e) => updateSetting('tipPercent', e.target.value)} className="mt-1 w-full bg-white/10 rounded-lg px-2 py-1.5 text-sm text-white" />
+                </label>
+                <label className="text-xs text-stone-400">
+                  {t('order.people')}
+                  <input type="number" min="1" step="1" value={settings.people} onChange={(e) => updateSetting('people', e.target.value)} className="mt-1 w-full bg-white/10 rounded-lg px-2 py-1.5 text-sm text-white" />
+                </label>
+              </div>
+
+              <dl className="mt-5 space-y-1 text-sm">
+                <div className="flex justify-between text-stone-400"><dt>{t('order.subtotal')}</dt><dd>{format(totals.subtotal)}</dd></div>
+                {totals.tax > 0 && <div className="flex justify-between text-stone-400"><dt>{t('order.tax')}</dt><dd>{format(totals.tax)}</dd></div>}
+                {totals.tip > 0 && <div className="flex justify-between text-stone-400"><dt>{t('order.tip')}</dt><dd>{format(totals.tip)}</dd></div>}
+                <div className="flex justify-between font-bold"><dt>{t('order.total')}</dt><dd>{format(totals.total)}</dd></div>
+                {settings.people > 1 && (
+                  <div className="flex justify-between text-emerald-300"><dt>{t('order.perPerson', { count: settings.people })}</dt><dd>{format(totals.perPerson)}</dd></div>
+                )}
+              </dl>
+
+              {totals.unpricedCount > 0 && (
+                <p className="text-xs text-amber-300 mt-3">
+                  {t.plural('order.unpriced', totals.unpricedCount)}
+                </p>
+              )}
+              {totals.unconvertedCount > 0 && (
+                <p className="text-xs text-amber-300 mt-1">
+                  {t.plural('order.unconverted', totals.unconvertedCount)}
+                </p>
+              )}
+
+              <div className="flex gap-2 mt-5">
+                <button onClick={() => setIsShowingStaffView(true)} className="flex-1 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm font-medium transition-colors">
+                  {t('order.showToStaff')}
+                </button>
+                <button onClick={onClear} className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium transition-colors">
+                  {t('order.clear')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex items-center justify-between px-5 py-4">
+            <span className="text-sm font-medium">
+              {t.plural('order.items', totals.itemCount)}
+            </span>
+            <span className="flex items-center gap-3">
+              <span className="text-right">
+                <span className="block font-bold">{format(totals.total)}</span>
+                {convertedTotal !== null && (
+                  <span className="block text-[11px] text-stone-400">≈ {formatMoney(convertedTotal, homeCurrency)}</span>
+                )}
+              </span>
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 15.75l7.5-7.5 7.5 7.5" />
+              </svg>
+            </span>
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default OrderSummary;
@@ -0,0 +1,67 @@
+import React, { useRef, useState } from 'react';
+import { Quad } from '../services/perspective';
+import { useI18n } from '../i18n';
+
+interface PerspectiveCropperProps {
+  imageUrl: string;
+  quad: Quad;
+  onChange: (quad: Quad) => void;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Drag the four corners onto the page edges; the area inside is straightened on submit
+const PerspectiveCropper: React.FC<PerspectiveCropperProps> = ({ imageUrl, quad, onChange }) => {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (draggingIndex === null || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    const point = {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+    onChange(quad.map((corner, i) => (i === draggingIndex ? point : corner)) as Quad);
+  };
+
+  const polygon = quad.map(({ x, y }) => `${x * 100},${y * 100}`).join(' ');
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative inline-block select-none touch-none max-h-full"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDraggingIndex(null)}
+      onPointerCancel={() => setDraggingIndex(null)}
+    >
+      <img src={imageUrl} alt={t('camera.capturedPage')} className="block max-h-[65vh] w-auto" draggable={false} />
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+        <defs>
+          <mask id="crop-mask">
+            <rect width="100" height="100" fill="white" />
+            <polygon points={polygon} fill="black" />
+          </mask>
+        </defs>
+        <rect width="100" height="100" fill="black" opacity="0.5" mask="url(#crop-mask)" />
+        <polygon points={polygon} fill="none" stroke="#34d399" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+      </svg>
+      {quad.map((corner, i) => (
+        <button
+          key={i}
+          type="button"
+          aria-label={t('camera.moveCorner', { corner: i + 1 })}
+          onPointerDown={(event) => {
+            event.currentTarget.setPointerCapture(event.pointerId);
+            setDraggingIndex(i);
+          }}
+          className={`absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-2 border-white shadow-lg transition-transform ${draggingIndex === i ? 'bg-emerald-500 scale-125' : 'bg-emerald-500/70'}`}
+          style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default PerspectiveCropper;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { CONCURRENCY_OPTIONS } from '../services/generationQueue';
+import { useI18n } from '../i18n';
+
+interface PhotoProgressProps {
+  ready: number;
+  total: number;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  // Dishes without a photo that are not being generated yet
+  missing: number;
+  onGenerateAll: () => void;
+}
+
+const PhotoProgress: React.FC<PhotoProgressProps> = ({ ready, total, concurrency, onConcurrencyChange, missing, onGenerateAll }) => {
+  const { t } = useI18n();
+  const percent = total ? Math.round((ready / total) * 100) : 0;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-xs font-medium text-stone-500">{t.plural('photos.progress', total, { ready })}</span>
+        {missing > 0 && (
+          <button
+            onClick={onGenerateAll}
+            className="ml-auto mr-4 text-xs font-semibold text-emerald-700 hover:text-emerald-800 transition-colors"
+          >
+            {t('photos.generateAll')}
+          </button>
+        )}
+        <label className="flex items-center gap-1.5 text-xs text-stone-400">
+          {t('photos.concurrency')}
+          <select
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="bg-transparent text-stone-600 font-medium focus:outline-none cursor-pointer"
+          >
+            {CONCURRENCY_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
+        <div className="h-full bg-emerald-500 transition-all duration-500" style={{ width: `${percent}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoProgress;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { SessionSummary, deleteSession, listSessions, renameSession } from '../services/sessionStore';
+import { useI18n } from '../i18n';
+
+interface RecentMenusProps {
+  onOpen: (sessionId: string) => void;
+}
+
+const RecentMenus: React.FC<RecentMenusProps> = ({ onOpen }) => {
+  const { t } = useI18n();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [coverUrls, setCoverUrls] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => {
+    let isCancelled = false;
+    const created: string[] = [];
+
+    listSessions()
+      .then(list => {
+        if (isCancelled) return;
+        const urls: Record<string, string> = {};
+        list.forEach(session => {
+          if (session.coverImage) {
+            urls[session.id] = URL.createObjectURL(session.coverImage);
+            created.push(urls[session.id]);
+          }
+        });
+        setSessions(list);
+        setCoverUrls(urls);
+      })
+      .catch(err => console.error("Error loading recent menus:", err));
+
+    return () => {
+      isCancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = async (sessionId: string) => {
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!name) return;
+    try {
+      await renameSession(sessionId, name);
+      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, name } : s));
+    } catch (err) {
+      console.error("Error renaming menu:", err);
+    }
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    if (!window.confirm(t('recent.confirmDelete', { name: session.name }))) return;
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      console.error("Error deleting menu:", err);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  const renderCover = (sessionId: string) => (
+    <div className="w-14 h-14 rounded-lg bg-gray-100 overflow-hidden shrink-0">
+      {coverUrls[sessionId] && (
+        <img src={coverUrls[sessionId]} alt="" className="w-full h-full object-cover" />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mt-16 text-left">
+      <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold mb-3">{t('recent.heading')}</h3>
+      <ul className="space-y-2">
+        {sessions.map(session => (
+          <li key={session.id} className="bg-white rounded-xl border border-gray-100 shadow-sm flex items-center gap-3 p-2 pr-3 group">
+            {editingId === session.id ? (
+              <div className="flex items-center gap-3 flex-1 min-w-0">
+                {renderCover(session.id)}
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => commitRename(session.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(session.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full text-sm font-semibold text-stone-900 border border-gray-200 rounded-md px-2 py-1"
+                />
+              </div>
+            ) : (
+              <button onClick={() => onOpen(session.id)} className="flex items-center gap-3 flex-1 min-w-0 text-left">
+                {renderCover(session.id)}
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-stone-900 truncate">{session.name}</p>
+                  <p className="text-xs text-stone-400 mt-0.5">
+                    {t.plural('recent.dishes', session.dishCount)} · {t.plural('recent.pages', session.pageCount)} · {new Date(session.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </button>
+            )}
+            <button
+              onClick={() => startRename(session)}
+              aria-label={t('recent.rename')}
+              className="p-2 rounded-lg text-stone-400 hover:text-stone-700 hover:bg-gray-50 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125" />
+              </svg>
+            </button>
+            <button
+              onClick={() => handleDelete(session)}
+              aria-label={t('recent.delete')}
+              className="p-2 rounded-lg text-stone-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.94-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentMenus;
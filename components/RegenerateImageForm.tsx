@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n';
+
+interface RegenerateImageFormProps {
+  initialDescription: string;
+  onSubmit: (description: string, instructions: string) => void;
+  onCancel: () => void;
+}
+
+// Lets the user tweak what the image is generated from before asking for another one
+const RegenerateImageForm: React.FC<RegenerateImageFormProps> = ({ initialDescription, onSubmit, onCancel }) => {
+  const { t } = useI18n();
+  const [description, setDescription] = useState(initialDescription);
+  const [instructions, setInstructions] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit(description.trim() || initialDescription, instructions.trim());
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onClick={(e) => e.stopPropagation()}
+      className="flex flex-col gap-2 p-3 bg-stone-50 border-b border-gray-100"
+    >
+      <label className="text-[10px] font-bold tracking-widest text-stone-400 uppercase">
+        {t('regenerate.description')}
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={1000}
+          rows={3}
+          className="mt-1 w-full text-xs font-normal normal-case tracking-normal text-gray-700 bg-white border border-gray-200 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-emerald-400/50"
+        />
+      </label>
+      <label className="text-[10px] font-bold tracking-widest text-stone-400 uppercase">
+        {t('regenerate.instructions')}
+        <input
+          type="text"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          maxLength={300}
+          placeholder={t('regenerate.instructionsPlaceholder')}
+          className="mt-1 w-full text-xs font-normal normal-case tracking-normal text-gray-700 bg-white border border-gray-200 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-emerald-400/50"
+        />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="py-1.5 px-3 rounded-lg text-xs font-medium text-stone-600 hover:bg-stone-100 transition-colors">
+          {t('regenerate.cancel')}
+        </button>
+        <button type="submit" className="py-1.5 px-3 rounded-lg text-xs font-medium bg-stone-800 hover:bg-stone-900 text-white transition-colors">
+          {t('regenerate.submit')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RegenerateImageForm;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { PreprocessOptions } from '../services/imagePreprocessor';
+import { MessageKey, useI18n } from '../i18n';
+
+interface ScanOptionsProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+  className?: string;
+}
+
+const TOGGLES: { key: 'enhanceContrast' | 'grayscale'; label: MessageKey }[] = [
+  { key: 'enhanceContrast', label: 'scan.enhanceContrast' },
+  { key: 'grayscale', label: 'scan.grayscale' },
+];
+
+// Optional cleanup applied to photos before they are read; helps with faded or dim menus
+const ScanOptions: React.FC<ScanOptionsProps> = ({ options, onChange, className = '' }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      {TOGGLES.map(({ key, label }) => {
+        const isActive = options[key];
+        return (
+          <button
+            key={key}
+            onClick={() => onChange({ ...options, [key]: !isActive })}
+            aria-pressed={isActive}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${isActive ? 'bg-stone-800 text-white border-stone-800 shadow-sm' : 'bg-white text-stone-600 border-gray-200 hover:border-stone-400 hover:text-stone-900'}`}
+          >
+            {t(label)}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScanOptions;
@@ -0,0 +1,79 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { TargetLanguage, isTargetLanguage } from '../types';
+import en, { MessageKey, Messages } from './messages/en';
+import es from './messages/es';
+import zh from './messages/zh';
+
+export type { MessageKey } from './messages/en';
+
+// UI translations; other target languages translate dishes but show the English UI
+const CATALOGS: Partial<Record<TargetLanguage, Messages>> = { en, es, zh };
+
+// Shown in the language picker in each language's own name
+export const LANGUAGE_OPTIONS: { code: TargetLanguage; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'zh', label: '简体中文' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+];
+
+type MessageParams = Record<string, string | number>;
+type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}.one` ? Base : never) : never;
+
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  // Picks `${key}.one` or `${key}.other` by count and passes count as a parameter
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+}
+
+export const createTranslator = (language: TargetLanguage): Translator => {
+  const catalog = CATALOGS[language] ?? en;
+  const t = ((key: MessageKey, params?: MessageParams) => {
+    const template = catalog[key] ?? en[key];
+    return params ? template.replace(/\{(\w+)\}/g, (match, name) => String(params[name] ?? match)) : template;
+  }) as Translator;
+  t.plural = (key, count, params) =>
+    t(`${key}.${count === 1 ? 'one' : 'other'}` as MessageKey, { count, ...params });
+  return t;
+};
+
+const STORAGE_KEY = 'gourmetvision.language';
+
+// Saved choice first, then the browser language, then English
+export const loadLanguage = (): TargetLanguage => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isTargetLanguage(stored)) return stored;
+  } catch (error) {
+    console.error("Error loading language:", error);
+  }
+  const browserLanguage = navigator.language?.split('-')[0];
+  return isTargetLanguage(browserLanguage) ? browserLanguage : 'en';
+};
+
+export const saveLanguage = (language: TargetLanguage) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch (error) {
+    console.error("Error saving language:", error);
+  }
+};
+
+interface I18nContextValue {
+  language: TargetLanguage;
+  t: Translator;
+}
+
+const I18nContext = createContext<I18nContextValue>({ language: 'en', t: createTranslator('en') });
+
+export const I18nProvider: React.FC<{ language: TargetLanguage; children: React.ReactNode }> = ({ language, children }) => {
+  const value = useMemo(() => ({ language, t: createTranslator(language) }), [language]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,231 @@
+// English UI strings; the source of truth for message keys. `{name}` marks a parameter,
+// and keys ending in .one/.other are picked by count through `plural`.
+const en = {
+  'key.prompt': 'Please select a Google Cloud project to proceed.',
+  'key.select': 'Select API Key',
+
+  'header.newMenu': 'New Menu',
+  'header.language': 'Language',
+
+  'upload.title': 'Visualize the menu.',
+  'upload.subtitle': 'Scan any menu instantly. We identify dishes, extract prices, and generate realistic photos.',
+  'upload.camera': 'Use Camera',
+  'upload.photo': 'Upload Photo',
+  'upload.formats': 'Works with JPEG, PNG, WebP and HEIC. Select several photos for multi-page menus.',
+
+  'session.defaultName': 'Menu · {date}',
+  'session.untitled': 'Menu',
+
+  'results.tabMenu': 'Original Menu',
+  'results.source': 'Original Source',
+  'results.pageOf': 'Page {page} of {total}',
+  'results.addPage': 'Add page',
+  'results.addPageCamera': 'Add page with camera',
+  'results.readingTitle': 'Reading the menu...',
+  'results.readingSubtitle': 'Identifying delicious dishes & prices.',
+  'results.readingProgress.one': 'Reading the menu... {count} dish so far',
+  'results.readingProgress.other': 'Reading the menu... {count} dishes so far',
+  'results.translating': 'Translating the menu...',
+  'results.noMatches': 'No dishes match your search or filters.',
+  'results.noDishes': 'No dishes found.',
+  'results.noDishesHint': 'Try a clearer image or a different menu.',
+  'results.tryAnother': 'Try Another Photo',
+  'results.dismiss': 'Dismiss',
+
+  'warning.TRUNCATED_RESPONSE': 'The menu response was cut off; {count} items recovered. Some dishes may be missing.',
+  'warning.MISSING_DISHES': 'The menu could not be read as a list of dishes.',
+  'warning.DROPPED_ITEMS.one': '{count} item could not be read.',
+  'warning.DROPPED_ITEMS.other': '{count} items could not be read.',
+  'warning.REPAIRED_ITEMS.one': '{count} item was missing a name or description and may be incomplete.',
+  'warning.REPAIRED_ITEMS.other': '{count} items were missing a name or description and may be incomplete.',
+
+  'error.selectKey': 'Failed to select API key. Please try again.',
+  'error.analyze': 'Failed to analyze the menu. Please try a clearer image.',
+  'error.readImage': 'Failed to read the image.',
+  'error.menuNotFound': 'That menu could not be found.',
+  'error.openMenu': 'Failed to open the saved menu.',
+  'error.translate': 'Failed to translate the menu. Showing English instead.',
+  'error.camera': 'Unable to access camera. Please allow permissions.',
+  'error.processPhotos': 'Failed to process the photos. Please try again.',
+  'error.regenerate': "Couldn't generate a new photo. The previous one was kept.",
+
+  'errorCode.invalid_request': "The server didn't accept that request.",
+  'errorCode.method_not_allowed': "The server didn't accept that request.",
+  'errorCode.not_found': "That item couldn't be found.",
+  'errorCode.payload_too_large': 'That was too large to send.',
+  'errorCode.rate_limited': 'Too many requests right now.',
+  'errorCode.missing_api_key': 'The server has no API key configured.',
+  'errorCode.invalid_api_key': "The AI service rejected the server's API key.",
+  'errorCode.quota_exceeded': "The AI service's usage quota has run out.",
+  'errorCode.content_policy': 'The AI service declined this under its content policy.',
+  'errorCode.timeout': 'The AI service took too long to respond.',
+  'errorCode.upstream_unavailable': 'The AI service is temporarily unavailable.',
+  'errorCode.network': "Couldn't reach the server. Check your connection.",
+
+  'recovery.retry': 'Try again',
+  'recovery.retry_later': 'Try again',
+  'recovery.edit_prompt': 'Edit description',
+  'recovery.new_photo': 'Take a new photo',
+  'recovery.hint.retry_later': 'Wait a minute before trying again.',
+  'recovery.hint.edit_prompt': 'Try rewording the description.',
+  'recovery.hint.new_photo': 'Try a closer, smaller photo of the menu.',
+  'recovery.hint.check_config': 'Check the API key settings on the server.',
+
+  'style.heading': 'Select Aesthetic',
+  'style.RUSTIC.label': 'Rustic & Dark',
+  'style.RUSTIC.description': 'Moody, wood textures, dramatic lighting.',
+  'style.BRIGHT.label': 'Bright & Modern',
+  'style.BRIGHT.description': 'Airy, white marble, soft natural light.',
+  'style.SOCIAL.label': 'Social Media',
+  'style.SOCIAL.description': 'Top-down, vibrant, trendy flat lay.',
+
+  'dietary.vegetarian': 'Vegetarian',
+  'dietary.vegan': 'Vegan',
+  'dietary.nutFree': 'Nut-free',
+  'dietary.glutenFree': 'Gluten-free',
+  'dietary.dairyFree': 'Dairy-free',
+  'dietary.shellfishFree': 'Shellfish-free',
+  'dietary.notSpicy': 'Not spicy',
+  'dietary.clear': 'Clear',
+
+  'sections.nav': 'Menu sections',
+  'sections.count.one': '{count} dish',
+  'sections.count.other': '{count} dishes',
+  'sections.expand': 'Show',
+  'sections.collapse': 'Hide',
+  'sections.uncategorized': 'Other',
+
+  'search.placeholder': 'Search dishes',
+
+  'sort.label': 'Sort',
+  'sort.menu': 'Menu order',
+  'sort.priceAsc': 'Price: low to high',
+  'sort.priceDesc': 'Price: high to low',
+  'sort.name': 'Name',
+
+  'badge.vegetarian': 'Vegetarian',
+  'badge.vegan': 'Vegan',
+  'badge.containsNuts': 'Nuts',
+  'badge.containsGluten': 'Gluten',
+  'badge.containsDairy': 'Dairy',
+  'badge.containsShellfish': 'Shellfish',
+  'badge.uncertain': 'Low confidence, please check with staff',
+
+  'dish.queued': 'Waiting in line...',
+  'dish.preparing': 'Preparing...',
+  'dish.scrollToView': 'Scroll to view',
+  'dish.imageUnavailable': 'Image unavailable',
+  'dish.aiGenerated': 'AI Generated',
+  'dish.marketPrice': 'Market price',
+  'dish.showOnMenu': 'Show on menu',
+  'dish.decrease': 'Decrease quantity',
+  'dish.increase': 'Increase quantity',
+  'dish.inOrder': '{count} in order',
+  'dish.addToOrder': 'Add to order',
+  'dish.tryAgain': 'Try Again',
+  'dish.viewDetails': 'View details',
+
+  'detail.close': 'Close',
+  'detail.explain': 'Explain this dish',
+  'detail.explaining': 'Explaining...',
+  'detail.explainError': 'Could not load an explanation. Please try again.',
+  'detail.origin': 'Origin',
+  'detail.howToEat': "How it's eaten",
+  'detail.flavor': 'Typical flavor',
+  'detail.pronunciation': 'Pronunciation',
+  'detail.listen': 'Listen to the original name',
+
+  'regenerate.open': 'New photo',
+  'regenerate.description': 'Photo description',
+  'regenerate.instructions': 'Extra direction',
+  'regenerate.instructionsPlaceholder': 'e.g. served in a clay pot, close-up',
+  'regenerate.cancel': 'Cancel',
+  'regenerate.submit': 'Generate',
+  'regenerate.selectVariant': 'Use photo {number}',
+
+  'photos.progress.one': '{ready} of {count} photo ready',
+  'photos.progress.other': '{ready} of {count} photos ready',
+  'photos.concurrency': 'At a time',
+  'photos.generateAll': 'Generate all photos now',
+
+  'scan.enhanceContrast': 'Boost contrast',
+  'scan.grayscale': 'Grayscale',
+
+  'camera.issue.blurry': 'Hold steady — the text looks blurry',
+  'camera.issue.too_dark': 'Too dark — find more light',
+  'camera.issue.too_bright': 'Too bright — the page looks washed out',
+  'camera.issue.glare': 'Glare detected — tilt the phone or menu slightly',
+  'camera.considerRetaking': '{issue}. Consider retaking.',
+  'camera.cropHint': 'Drag the corners to the edges of the menu page.',
+  'camera.adjustPage': 'Adjust page {page}',
+  'camera.removePage': 'Remove page {page}',
+  'camera.close': 'Close camera',
+  'camera.takePhoto': 'Take photo',
+  'camera.retake': 'Retake',
+  'camera.resetCorners': 'Reset corners',
+  'camera.keep': 'Keep',
+  'camera.processing': 'Processing...',
+  'camera.done': 'Done ({count})',
+  'camera.moveCorner': 'Move corner {corner}',
+  'camera.capturedPage': 'Captured menu page',
+
+  'carousel.page': 'Menu page {page}',
+  'carousel.previous': 'Previous page',
+  'carousel.next': 'Next page',
+  'carousel.showDish': 'Show {name}',
+
+  'currency.heading': 'Home Currency',
+  'currency.menuCurrency': 'Menu prices in',
+  'currency.detected': 'Detected: {currency}',
+  'currency.unknown': 'Not detected',
+  'currency.ratesNote': 'Conversions use your local rate table.',
+  'currency.editRates': 'Edit rates',
+  'currency.hideRates': 'Hide rates',
+  'currency.unitsPerUsd': 'Units per 1 USD',
+
+  'export.heading': 'Export',
+  'export.layout': 'Layout',
+  'export.layout.grid': 'Grid',
+  'export.layout.list': 'List',
+  'export.layout.compact': 'Compact',
+  'export.format.pdf': 'PDF',
+  'export.format.html': 'HTML',
+  'export.format.png': 'Image',
+  'export.hint': 'Layout applies to PDF and HTML. Image is a tall picture for sharing.',
+  'export.pdfNote': "PDF pages are 300 dpi images: they print sharp, but their text can't be selected or searched. Use HTML for selectable text.",
+  'export.uncategorized': 'Other',
+  'export.notice': 'Photos are AI-generated illustrations and may differ from the served dish.',
+  'export.error': 'Export failed. Please try again.',
+
+  'order.close': 'Close',
+  'order.taxPercent': 'Tax %',
+  'order.tipPercent': 'Tip %',
+  'order.people': 'People',
+  'order.subtotal': 'Subtotal',
+  'order.tax': 'Tax',
+  'order.tip': 'Tip',
+  'order.total': 'Total',
+  'order.perPerson': 'Each ({count} people)',
+  'order.unpriced.one': '{count} item has no readable price and is not included.',
+  'order.unpriced.other': '{count} items have no readable price and are not included.',
+  'order.unconverted.one': '{count} item is priced in another currency with no exchange rate and is not included.',
+  'order.unconverted.other': '{count} items are priced in another currency with no exchange rate and are not included.',
+  'order.showToStaff': 'Show to staff',
+  'order.clear': 'Clear',
+  'order.items.one': '{count} item',
+  'order.items.other': '{count} items',
+
+  'recent.heading': 'Recent menus',
+  'recent.dishes.one': '{count} dish',
+  'recent.dishes.other': '{count} dishes',
+  'recent.pages.one': '{count} page',
+  'recent.pages.other': '{count} pages',
+  'recent.rename': 'Rename',
+  'recent.delete': 'Delete',
+  'recent.confirmDelete': 'Delete "{name}"?',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en;
@@ -0,0 +1,228 @@
+import { Messages } from './en';
+
+const es: Messages = {
+  'key.prompt': 'Selecciona un proyecto de Google Cloud para continuar.',
+  'key.select': 'Seleccionar clave de API',
+
+  'header.newMenu': 'Nuevo menú',
+  'header.language': 'Idioma',
+
+  'upload.title': 'Visualiza el menú.',
+  'upload.subtitle': 'Escanea cualquier menú al instante. Identificamos los platos, extraemos los precios y generamos fotos realistas.',
+  'upload.camera': 'Usar cámara',
+  'upload.photo': 'Subir foto',
+  'upload.formats': 'Admite JPEG, PNG, WebP y HEIC. Selecciona varias fotos para menús de varias páginas.',
+
+  'session.defaultName': 'Menú · {date}',
+  'session.untitled': 'Menú',
+
+  'results.tabMenu': 'Menú original',
+  'results.source': 'Fuente original',
+  'results.pageOf': 'Página {page} de {total}',
+  'results.addPage': 'Añadir página',
+  'results.addPageCamera': 'Añadir página con la cámara',
+  'results.readingTitle': 'Leyendo el menú...',
+  'results.readingSubtitle': 'Identificando platos deliciosos y precios.',
+  'results.readingProgress.one': 'Leyendo el menú... {count} plato por ahora',
+  'results.readingProgress.other': 'Leyendo el menú... {count} platos por ahora',
+  'results.translating': 'Traduciendo el menú...',
+  'results.noMatches': 'Ningún plato coincide con tu búsqueda o los filtros.',
+  'results.noDishes': 'No se encontraron platos.',
+  'results.noDishesHint': 'Prueba con una imagen más nítida o con otro menú.',
+  'results.tryAnother': 'Probar otra foto',
+  'results.dismiss': 'Descartar',
+
+  'warning.TRUNCATED_RESPONSE': 'La respuesta del menú se cortó; se recuperaron {count} elementos. Puede que falten platos.',
+  'warning.MISSING_DISHES': 'No se pudo leer el menú como una lista de platos.',
+  'warning.DROPPED_ITEMS.one': 'No se pudo leer {count} elemento.',
+  'warning.DROPPED_ITEMS.other': 'No se pudieron leer {count} elementos.',
+  'warning.REPAIRED_ITEMS.one': 'A {count} elemento le faltaba el nombre o la descripción y puede estar incompleto.',
+  'warning.REPAIRED_ITEMS.other': 'A {count} elementos les faltaba el nombre o la descripción y pueden estar incompletos.',
+
+  'error.selectKey': 'No se pudo seleccionar la clave de API. Inténtalo de nuevo.',
+  'error.analyze': 'No se pudo analizar el menú. Prueba con una imagen más nítida.',
+  'error.readImage': 'No se pudo leer la imagen.',
+  'error.menuNotFound': 'No se encontró ese menú.',
+  'error.openMenu': 'No se pudo abrir el menú guardado.',
+  'error.translate': 'No se pudo traducir el menú. Se muestra en inglés.',
+  'error.camera': 'No se puede acceder a la cámara. Concede los permisos.',
+  'error.processPhotos': 'No se pudieron procesar las fotos. Inténtalo de nuevo.',
+  'error.regenerate': 'No se pudo generar una foto nueva. Se mantuvo la anterior.',
+
+  'errorCode.invalid_request': 'El servidor no aceptó la solicitud.',
+  'errorCode.method_not_allowed': 'El servidor no aceptó la solicitud.',
+  'errorCode.not_found': 'No se encontró el elemento.',
+  'errorCode.payload_too_large': 'Era demasiado grande para enviarlo.',
+  'errorCode.rate_limited': 'Demasiadas solicitudes en este momento.',
+  'errorCode.missing_api_key': 'El servidor no tiene una clave de API configurada.',
+  'errorCode.invalid_api_key': 'El servicio de IA rechazó la clave de API del servidor.',
+  'errorCode.quota_exceeded': 'Se agotó la cuota de uso del servicio de IA.',
+  'errorCode.content_policy': 'El servicio de IA lo rechazó por su política de contenido.',
+  'errorCode.timeout': 'El servicio de IA tardó demasiado en responder.',
+  'errorCode.upstream_unavailable': 'El servicio de IA no está disponible por ahora.',
+  'errorCode.network': 'No se pudo conectar con el servidor. Revisa tu conexión.',
+
+  'recovery.retry': 'Reintentar',
+  'recovery.retry_later': 'Reintentar',
+  'recovery.edit_prompt': 'Editar descripción',
+  'recovery.new_photo': 'Tomar otra foto',
+  'recovery.hint.retry_later': 'Espera un minuto antes de volver a intentarlo.',
+  'recovery.hint.edit_prompt': 'Prueba a reformular la descripción.',
+  'recovery.hint.new_photo': 'Prueba con una foto del menú más cercana y ligera.',
+  'recovery.hint.check_config': 'Revisa la configuración de la clave de API en el servidor.',
+
+  'style.heading': 'Elige una estética',
+  'style.RUSTIC.label': 'Rústico y oscuro',
+  'style.RUSTIC.description': 'Ambiente íntimo, texturas de madera, luz dramática.',
+  'style.BRIGHT.label': 'Luminoso y moderno',
+  'style.BRIGHT.description': 'Aireado, mármol blanco, luz natural suave.',
+  'style.SOCIAL.label': 'Redes sociales',
+  'style.SOCIAL.description': 'Vista cenital, colores vivos, flat lay de tendencia.',
+
+  'dietary.vegetarian': 'Vegetariano',
+  'dietary.vegan': 'Vegano',
+  'dietary.nutFree': 'Sin frutos secos',
+  'dietary.glutenFree': 'Sin gluten',
+  'dietary.dairyFree': 'Sin lácteos',
+  'dietary.shellfishFree': 'Sin marisco',
+  'dietary.notSpicy': 'No picante',
+  'dietary.clear': 'Borrar',
+
+  'sections.nav': 'Secciones del menú',
+  'sections.count.one': '{count} plato',
+  'sections.count.other': '{count} platos',
+  'sections.expand': 'Mostrar',
+  'sections.collapse': 'Ocultar',
+  'sections.uncategorized': 'Otros',
+
+  'search.placeholder': 'Buscar platos',
+
+  'sort.label': 'Ordenar',
+  'sort.menu': 'Orden del menú',
+  'sort.priceAsc': 'Precio: de menor a mayor',
+  'sort.priceDesc': 'Precio: de mayor a menor',
+  'sort.name': 'Nombre',
+
+  'badge.vegetarian': 'Vegetariano',
+  'badge.vegan': 'Vegano',
+  'badge.containsNuts': 'Frutos secos',
+  'badge.containsGluten': 'Gluten',
+  'badge.containsDairy': 'Lácteos',
+  'badge.containsShellfish': 'Marisco',
+  'badge.uncertain': 'Poca certeza, confírmalo con el personal',
+
+  'dish.queued': 'En espera...',
+  'dish.preparing': 'Preparando...',
+  'dish.scrollToView': 'Desplázate para ver',
+  'dish.imageUnavailable': 'Imagen no disponible',
+  'dish.aiGenerated': 'Generada con IA',
+  'dish.marketPrice': 'Precio de mercado',
+  'dish.showOnMenu': 'Ver en el menú',
+  'dish.decrease': 'Reducir cantidad',
+  'dish.increase': 'Aumentar cantidad',
+  'dish.inOrder': '{count} en el pedido',
+  'dish.addToOrder': 'Añadir al pedido',
+  'dish.tryAgain': 'Reintentar',
+  'dish.viewDetails': 'Ver detalles',
+
+  'detail.close': 'Cerrar',
+  'detail.explain': 'Explicar este plato',
+  'detail.explaining': 'Explicando...',
+  'detail.explainError': 'No se pudo cargar la explicación. Inténtalo de nuevo.',
+  'detail.origin': 'Origen',
+  'detail.howToEat': 'Cómo se come',
+  'detail.flavor': 'Sabor típico',
+  'detail.pronunciation': 'Pronunciación',
+  'detail.listen': 'Escuchar el nombre original',
+
+  'regenerate.open': 'Nueva foto',
+  'regenerate.description': 'Descripción de la foto',
+  'regenerate.instructions': 'Indicaciones adicionales',
+  'regenerate.instructionsPlaceholder': 'p. ej. servido en cazuela de barro, primer plano',
+  'regenerate.cancel': 'Cancelar',
+  'regenerate.submit': 'Generar',
+  'regenerate.selectVariant': 'Usar foto {number}',
+
+  'photos.progress.one': '{ready} de {count} foto lista',
+  'photos.progress.other': '{ready} de {count} fotos listas',
+  'photos.concurrency': 'A la vez',
+  'photos.generateAll': 'Generar todas las fotos ahora',
+
+  'scan.enhanceContrast': 'Más contraste',
+  'scan.grayscale': 'Escala de grises',
+
+  'camera.issue.blurry': 'No te muevas: el texto se ve borroso',
+  'camera.issue.too_dark': 'Demasiado oscuro: busca más luz',
+  'camera.issue.too_bright': 'Demasiado claro: la página se ve lavada',
+  'camera.issue.glare': 'Hay reflejos: inclina un poco el móvil o el menú',
+  'camera.considerRetaking': '{issue}. Considera repetir la foto.',
+  'camera.cropHint': 'Arrastra las esquinas a los bordes de la página del menú.',
+  'camera.adjustPage': 'Ajustar página {page}',
+  'camera.removePage': 'Quitar página {page}',
+  'camera.close': 'Cerrar cámara',
+  'camera.takePhoto': 'Hacer foto',
+  'camera.retake': 'Repetir',
+  'camera.resetCorners': 'Restablecer esquinas',
+  'camera.keep': 'Conservar',
+  'camera.processing': 'Procesando...',
+  'camera.done': 'Listo ({count})',
+  'camera.moveCorner': 'Mover esquina {corner}',
+  'camera.capturedPage': 'Página del menú capturada',
+
+  'carousel.page': 'Página del menú {page}',
+  'carousel.previous': 'Página anterior',
+  'carousel.next': 'Página siguiente',
+  'carousel.showDish': 'Mostrar {name}',
+
+  'currency.heading': 'Moneda local',
+  'currency.menuCurrency': 'Precios del menú en',
+  'currency.detected': 'Detectada: {currency}',
+  'currency.unknown': 'No detectada',
+  'currency.ratesNote': 'Las conversiones usan tu tabla de tipos de cambio.',
+  'currency.editRates': 'Editar tipos',
+  'currency.hideRates': 'Ocultar tipos',
+  'currency.unitsPerUsd': 'Unidades por 1 USD',
+
+  'export.heading': 'Exportar',
+  'export.layout': 'Diseño',
+  'export.layout.grid': 'Cuadrícula',
+  'export.layout.list': 'Lista',
+  'export.layout.compact': 'Compacto',
+  'export.format.pdf': 'PDF',
+  'export.format.html': 'HTML',
+  'export.format.png': 'Imagen',
+  'export.hint': 'El diseño se aplica a PDF y HTML. La imagen es una lámina vertical para compartir.',
+  'export.pdfNote': 'Las páginas del PDF son imágenes a 300 ppp: se imprimen nítidas, pero su texto no se puede seleccionar ni buscar. Usa HTML si necesitas texto seleccionable.',
+  'export.uncategorized': 'Otros',
+  'export.notice': 'Las fotos son ilustraciones generadas por IA y pueden diferir del plato servido.',
+  'export.error': 'No se pudo exportar. Inténtalo de nuevo.',
+
+  'order.close': 'Cerrar',
+  'order.taxPercent': 'Impuesto %',
+  'order.tipPercent': 'Propina %',
+  'order.people': 'Personas',
+  'order.subtotal': 'Subtotal',
+  'order.tax': 'Impuesto',
+  'order.tip': 'Propina',
+  'order.total': 'Total',
+  'order.perPerson': 'Por persona ({count} personas)',
+  'order.unpriced.one': '{count} elemento no tiene un precio legible y no se incluye.',
+  'order.unpriced.other': '{count} elementos no tienen un precio legible y no se incluyen.',
+  'order.unconverted.one': '{count} elemento tiene un precio en otra moneda sin tipo de cambio y no se incluye.',
+  'order.unconverted.other': '{count} elementos tienen un precio en otra moneda sin tipo de cambio y no se incluyen.',
+  'order.showToStaff': 'Mostrar al personal',
+  'order.clear': 'Vaciar',
+  'order.items.one': '{count} elemento',
+  'order.items.other': '{count} elementos',
+
+  'recent.heading': 'Menús recientes',
+  'recent.dishes.one': '{count} plato',
+  'recent.dishes.other': '{count} platos',
+  'recent.pages.one': '{count} página',
+  'recent.pages.other': '{count} páginas',
+  'recent.rename': 'Renombrar',
+  'recent.delete': 'Eliminar',
+  'recent.confirmDelete': '¿Eliminar "{name}"?',
+};
+
+export default es;
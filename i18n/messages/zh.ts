@@ -0,0 +1,228 @@
+import { Messages } from './en';
+
+const zh: Messages = {
+  'key.prompt': '请选择一个 Google Cloud 项目以继续。',
+  'key.select': '选择 API 密钥',
+
+  'header.newMenu': '新菜单',
+  'header.language': '语言',
+
+  'upload.title': '让菜单一目了然。',
+  'upload.subtitle': '即刻扫描任意菜单。我们会识别菜品、提取价格，并生成逼真的照片。',
+  'upload.camera': '使用相机',
+  'upload.photo': '上传照片',
+  'upload.formats': '支持 JPEG、PNG、WebP 和 HEIC。多页菜单可一次选择多张照片。',
+
+  'session.defaultName': '菜单 · {date}',
+  'session.untitled': '菜单',
+
+  'results.tabMenu': '原始菜单',
+  'results.source': '原始菜单',
+  'results.pageOf': '第 {page} 页，共 {total} 页',
+  'results.addPage': '添加页面',
+  'results.addPageCamera': '用相机添加页面',
+  'results.readingTitle': '正在读取菜单...',
+  'results.readingSubtitle': '正在识别美味菜品和价格。',
+  'results.readingProgress.one': '正在读取菜单... 已识别 {count} 道菜',
+  'results.readingProgress.other': '正在读取菜单... 已识别 {count} 道菜',
+  'results.translating': '正在翻译菜单...',
+  'results.noMatches': '没有符合搜索或筛选条件的菜品。',
+  'results.noDishes': '未找到菜品。',
+  'results.noDishesHint': '请尝试更清晰的图片或换一份菜单。',
+  'results.tryAnother': '换一张照片',
+  'results.dismiss': '关闭',
+
+  'warning.TRUNCATED_RESPONSE': '菜单结果被截断，已恢复 {count} 项，可能缺少部分菜品。',
+  'warning.MISSING_DISHES': '无法将菜单识别为菜品列表。',
+  'warning.DROPPED_ITEMS.one': '有 {count} 项无法识别。',
+  'warning.DROPPED_ITEMS.other': '有 {count} 项无法识别。',
+  'warning.REPAIRED_ITEMS.one': '有 {count} 项缺少名称或描述，信息可能不完整。',
+  'warning.REPAIRED_ITEMS.other': '有 {count} 项缺少名称或描述，信息可能不完整。',
+
+  'error.selectKey': '选择 API 密钥失败，请重试。',
+  'error.analyze': '菜单分析失败，请尝试更清晰的图片。',
+  'error.readImage': '无法读取图片。',
+  'error.menuNotFound': '找不到该菜单。',
+  'error.openMenu': '无法打开已保存的菜单。',
+  'error.translate': '菜单翻译失败，暂以英文显示。',
+  'error.camera': '无法访问相机，请授予权限。',
+  'error.processPhotos': '照片处理失败，请重试。',
+  'error.regenerate': '无法生成新照片，已保留之前的照片。',
+
+  'errorCode.invalid_request': '服务器未接受该请求。',
+  'errorCode.method_not_allowed': '服务器未接受该请求。',
+  'errorCode.not_found': '找不到该内容。',
+  'errorCode.payload_too_large': '内容过大，无法发送。',
+  'errorCode.rate_limited': '当前请求过多。',
+  'errorCode.missing_api_key': '服务器未配置 API 密钥。',
+  'errorCode.invalid_api_key': 'AI 服务拒绝了服务器的 API 密钥。',
+  'errorCode.quota_exceeded': 'AI 服务的使用额度已用完。',
+  'errorCode.content_policy': 'AI 服务根据其内容政策拒绝了此请求。',
+  'errorCode.timeout': 'AI 服务响应超时。',
+  'errorCode.upstream_unavailable': 'AI 服务暂时不可用。',
+  'errorCode.network': '无法连接服务器，请检查网络。',
+
+  'recovery.retry': '重试',
+  'recovery.retry_later': '重试',
+  'recovery.edit_prompt': '编辑描述',
+  'recovery.new_photo': '重新拍照',
+  'recovery.hint.retry_later': '请稍等一分钟再试。',
+  'recovery.hint.edit_prompt': '试着换一种方式描述。',
+  'recovery.hint.new_photo': '请拍一张更近、更小的菜单照片。',
+  'recovery.hint.check_config': '请检查服务器上的 API 密钥设置。',
+
+  'style.heading': '选择风格',
+  'style.RUSTIC.label': '质朴暗调',
+  'style.RUSTIC.description': '氛围感、木质纹理、戏剧性光线。',
+  'style.BRIGHT.label': '明亮现代',
+  'style.BRIGHT.description': '通透、白色大理石、柔和自然光。',
+  'style.SOCIAL.label': '社交媒体',
+  'style.SOCIAL.description': '俯拍、色彩鲜艳、流行平铺构图。',
+
+  'dietary.vegetarian': '素食',
+  'dietary.vegan': '纯素',
+  'dietary.nutFree': '不含坚果',
+  'dietary.glutenFree': '无麸质',
+  'dietary.dairyFree': '不含乳制品',
+  'dietary.shellfishFree': '不含贝类',
+  'dietary.notSpicy': '不辣',
+  'dietary.clear': '清除',
+
+  'sections.nav': '菜单分类',
+  'sections.count.one': '{count} 道菜',
+  'sections.count.other': '{count} 道菜',
+  'sections.expand': '展开',
+  'sections.collapse': '收起',
+  'sections.uncategorized': '其他',
+
+  'search.placeholder': '搜索菜品',
+
+  'sort.label': '排序',
+  'sort.menu': '菜单顺序',
+  'sort.priceAsc': '价格：从低到高',
+  'sort.priceDesc': '价格：从高到低',
+  'sort.name': '名称',
+
+  'badge.vegetarian': '素食',
+  'badge.vegan': '纯素',
+  'badge.containsNuts': '坚果',
+  'badge.containsGluten': '麸质',
+  'badge.containsDairy': '乳制品',
+  'badge.containsShellfish': '贝类',
+  'badge.uncertain': '置信度较低，请向服务员确认',
+
+  'dish.queued': '排队中...',
+  'dish.preparing': '准备中...',
+  'dish.scrollToView': '滚动查看',
+  'dish.imageUnavailable': '图片不可用',
+  'dish.aiGenerated': 'AI 生成',
+  'dish.marketPrice': '时价',
+  'dish.showOnMenu': '在菜单中查看',
+  'dish.decrease': '减少数量',
+  'dish.increase': '增加数量',
+  'dish.inOrder': '已点 {count} 份',
+  'dish.addToOrder': '加入点单',
+  'dish.tryAgain': '重试',
+  'dish.viewDetails': '查看详情',
+
+  'detail.close': '关闭',
+  'detail.explain': '介绍这道菜',
+  'detail.explaining': '正在介绍...',
+  'detail.explainError': '无法加载介绍，请重试。',
+  'detail.origin': '起源',
+  'detail.howToEat': '吃法',
+  'detail.flavor': '典型风味',
+  'detail.pronunciation': '发音',
+  'detail.listen': '收听原名发音',
+
+  'regenerate.open': '新照片',
+  'regenerate.description': '照片描述',
+  'regenerate.instructions': '额外要求',
+  'regenerate.instructionsPlaceholder': '例如：用砂锅盛放，特写',
+  'regenerate.cancel': '取消',
+  'regenerate.submit': '生成',
+  'regenerate.selectVariant': '使用第 {number} 张照片',
+
+  'photos.progress.one': '已完成 {ready}/{count} 张照片',
+  'photos.progress.other': '已完成 {ready}/{count} 张照片',
+  'photos.concurrency': '同时生成',
+  'photos.generateAll': '立即生成全部照片',
+
+  'scan.enhanceContrast': '增强对比度',
+  'scan.grayscale': '灰度',
+
+  'camera.issue.blurry': '请保持稳定——文字看起来模糊',
+  'camera.issue.too_dark': '太暗了——请找更亮的地方',
+  'camera.issue.too_bright': '太亮了——页面看起来发白',
+  'camera.issue.glare': '检测到反光——请稍微倾斜手机或菜单',
+  'camera.considerRetaking': '{issue}。建议重拍。',
+  'camera.cropHint': '将四个角拖到菜单页面的边缘。',
+  'camera.adjustPage': '调整第 {page} 页',
+  'camera.removePage': '移除第 {page} 页',
+  'camera.close': '关闭相机',
+  'camera.takePhoto': '拍照',
+  'camera.retake': '重拍',
+  'camera.resetCorners': '重置角点',
+  'camera.keep': '保留',
+  'camera.processing': '处理中...',
+  'camera.done': '完成（{count}）',
+  'camera.moveCorner': '移动第 {corner} 个角',
+  'camera.capturedPage': '已拍摄的菜单页面',
+
+  'carousel.page': '菜单第 {page} 页',
+  'carousel.previous': '上一页',
+  'carousel.next': '下一页',
+  'carousel.showDish': '查看 {name}',
+
+  'currency.heading': '本国货币',
+  'currency.menuCurrency': '菜单价格币种',
+  'currency.detected': '自动识别：{currency}',
+  'currency.unknown': '未识别',
+  'currency.ratesNote': '换算使用你本地的汇率表。',
+  'currency.editRates': '编辑汇率',
+  'currency.hideRates': '隐藏汇率',
+  'currency.unitsPerUsd': '每 1 美元兑换',
+
+  'export.heading': '导出',
+  'export.layout': '版式',
+  'export.layout.grid': '网格',
+  'export.layout.list': '列表',
+  'export.layout.compact': '紧凑',
+  'export.format.pdf': 'PDF',
+  'export.format.html': 'HTML',
+  'export.format.png': '图片',
+  'export.hint': '版式适用于 PDF 和 HTML。图片为适合分享的长图。',
+  'export.pdfNote': 'PDF 页面为 300 dpi 图片：打印清晰，但其中文字无法选择或搜索。需要可选择的文字请使用 HTML。',
+  'export.uncategorized': '其他',
+  'export.notice': '照片为 AI 生成的示意图，可能与实际菜品不同。',
+  'export.error': '导出失败，请重试。',
+
+  'order.close': '关闭',
+  'order.taxPercent': '税率 %',
+  'order.tipPercent': '小费 %',
+  'order.people': '人数',
+  'order.subtotal': '小计',
+  'order.tax': '税',
+  'order.tip': '小费',
+  'order.total': '合计',
+  'order.perPerson': '人均（{count} 人）',
+  'order.unpriced.one': '有 {count} 项没有可识别的价格，未计入。',
+  'order.unpriced.other': '有 {count} 项没有可识别的价格，未计入。',
+  'order.unconverted.one': '有 {count} 项以其他货币标价且没有汇率，未计入。',
+  'order.unconverted.other': '有 {count} 项以其他货币标价且没有汇率，未计入。',
+  'order.showToStaff': '出示给服务员',
+  'order.clear': '清空',
+  'order.items.one': '{count} 项',
+  'order.items.other': '{count} 项',
+
+  'recent.heading': '最近的菜单',
+  'recent.dishes.one': '{count} 道菜',
+  'recent.dishes.other': '{count} 道菜',
+  'recent.pages.one': '{count} 页',
+  'recent.pages.other': '{count} 页',
+  'recent.rename': '重命名',
+  'recent.delete': '删除',
+  'recent.confirmDelete': '删除“{name}”？',
+};
+
+export default zh;
@@ -0,0 +1,125 @@
+import { ParsedPrice } from "../types";
+
+// Units of each currency per 1 USD. These are rough defaults; users can edit
+// them locally because we have no live rate feed.
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  CNY: 7.2,
+  KRW: 1350,
+  HKD: 7.8,
+  TWD: 32,
+  SGD: 1.35,
+  AUD: 1.52,
+  CAD: 1.36,
+  NZD: 1.65,
+  CHF: 0.88,
+  INR: 83,
+  THB: 36,
+  VND: 25000,
+  PHP: 56,
+  MXN: 17,
+  BRL: 5,
+  TRY: 32,
+  PLN: 4,
+  SEK: 10.5,
+  NOK: 10.6,
+  DKK: 6.9,
+  CZK: 23,
+};
+
+export interface CurrencySettings {
+  homeCurrency: string;
+  rates: Record<string, number>;
+}
+
+// Everything a card needs to show a price in the user's home currency
+export interface PriceContext extends CurrencySettings {
+  // Used for prices printed without a currency symbol
+  menuCurrency: string | null;
+}
+
+const STORAGE_KEY = "gourmetvision.currency";
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  const defaults: CurrencySettings = { homeCurrency: "USD", rates: DEFAULT_EXCHANGE_RATES };
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaults;
+    const parsed = JSON.parse(stored) as Partial<CurrencySettings>;
+    return {
+      homeCurrency: parsed.homeCurrency ?? defaults.homeCurrency,
+      rates: { ...DEFAULT_EXCHANGE_RATES, ...parsed.rates },
+    };
+  } catch (error) {
+    console.error("Error loading currency settings:", error);
+    return defaults;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving currency settings:", error);
+  }
+};
+
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number>
+): number | null => {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+};
+
+/**
+ * A menu price's first amount in the menu currency, so prices printed in
+ * different currencies can be added up and compared. Null when there is no
+ * amount or its currency cannot be converted.
+ */
+export const getMenuAmount = (price: ParsedPrice | undefined, context: PriceContext): number | null => {
+  if (!price || price.amount === null) return null;
+  const currency = price.currency ?? context.menuCurrency;
+  if (currency === context.menuCurrency) return price.amount;
+  if (!currency || !context.menuCurrency) return null;
+  return convertAmount(price.amount, currency, context.menuCurrency, context.rates);
+};
+
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+/**
+ * Formats a menu price in the home currency, e.g. "≈ $8.20" or "≈ $8.20–$12.00"
+ * when several sizes are listed. Returns null when there is nothing to convert.
+ */
+export const formatConvertedPrice = (price: ParsedPrice | undefined, context: PriceContext): string | null => {
+  const currency = price?.currency ?? context.menuCurrency;
+  if (!price || !currency || currency === context.homeCurrency || price.options.length === 0) {
+    return null;
+  }
+
+  const converted = price.options
+    .map((option) => convertAmount(option.amount, currency, context.homeCurrency, context.rates))
+    .filter((amount): amount is number => amount !== null);
+  if (converted.length === 0) return null;
+
+  const low = Math.min(...converted);
+  const high = Math.max(...converted);
+  const formatted = low === high
+    ? formatMoney(low, context.homeCurrency)
+    : `${formatMoney(low, context.homeCurrency)}–${formatMoney(high, context.homeCurrency)}`;
+  return `≈ ${formatted}`;
+};
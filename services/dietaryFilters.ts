@@ -0,0 +1,96 @@
+import { DietaryTag, DietaryTags, Dish } from "../types";
+
+// Tags below this confidence are shown as uncertain and never satisfy a filter
+export const MIN_TAG_CONFIDENCE = 0.6;
+
+export type DietaryFilter =
+  | "vegetarian"
+  | "vegan"
+  | "nutFree"
+  | "glutenFree"
+  | "dairyFree"
+  | "shellfishFree"
+  | "notSpicy";
+
+// Display order of the filter chips; labels live in the i18n catalogs under "dietary.*"
+export const DIETARY_FILTERS: DietaryFilter[] = [
+  "vegetarian",
+  "vegan",
+  "nutFree",
+  "glutenFree",
+  "dairyFree",
+  "shellfishFree",
+  "notSpicy",
+];
+
+export interface DietaryBadge {
+  id: keyof DietaryTags;
+  // English fallback; the UI shows the "badge.*" message for non-spicy badges
+  label: string;
+  kind: "diet" | "allergen" | "spicy";
+  isUncertain: boolean;
+}
+
+const isConfident = <T>(tag?: DietaryTag<T>): tag is DietaryTag<T> =>
+  !!tag && tag.confidence >= MIN_TAG_CONFIDENCE;
+
+const isConfidentlyTrue = (tag?: DietaryTag<boolean>) => isConfident(tag) && tag.value === true;
+const isConfidentlyFalse = (tag?: DietaryTag<boolean>) => isConfident(tag) && tag.value === false;
+
+/**
+ * Unknown or low-confidence tags do not match. These filters are used to order
+ * for people with allergies, so a dish is hidden unless we are reasonably sure.
+ */
+export const matchesDietaryFilter = (dish: Dish, filter: DietaryFilter): boolean => {
+  const tags = dish.dietary ?? {};
+  switch (filter) {
+    case "vegetarian":
+      return isConfidentlyTrue(tags.vegetarian) || isConfidentlyTrue(tags.vegan);
+    case "vegan":
+      return isConfidentlyTrue(tags.vegan);
+    case "nutFree":
+      return isConfidentlyFalse(tags.containsNuts);
+    case "glutenFree":
+      return isConfidentlyFalse(tags.containsGluten);
+    case "dairyFree":
+      return isConfidentlyFalse(tags.containsDairy);
+    case "shellfishFree":
+      return isConfidentlyFalse(tags.containsShellfish);
+    case "notSpicy":
+      return isConfident(tags.spicyLevel) && tags.spicyLevel.value === 0;
+  }
+};
+
+export const matchesDietaryFilters = (dish: Dish, filters: DietaryFilter[]): boolean =>
+  filters.every((filter) => matchesDietaryFilter(dish, filter));
+
+export const getDietaryBadges = (tags?: DietaryTags): DietaryBadge[] => {
+  if (!tags) return [];
+
+  const badges: DietaryBadge[] = [];
+  const addIfTrue = (id: keyof DietaryTags, label: string, kind: DietaryBadge["kind"]) => {
+    const tag = tags[id] as DietaryTag<boolean> | undefined;
+    if (tag?.value === true) {
+      badges.push({ id, label, kind, isUncertain: !isConfident(tag) });
+    }
+  };
+
+  // A vegan dish is also vegetarian; only show the stronger badge
+  if (tags.vegan?.value) {
+    addIfTrue("vegan", "Vegan", "diet");
+  } else {
+    addIfTrue("vegetarian", "Vegetarian", "diet");
+  }
+  addIfTrue("containsNuts", "Nuts", "allergen");
+  addIfTrue("containsGluten", "Gluten", "allergen");
+  addIfTrue("containsDairy", "Dairy", "allergen");
+  addIfTrue("containsShellfish", "Shellfish", "allergen");
+
+  const spicy = tags.spicyLevel;
+  if (spicy && spicy.value > 0) {
+    const level = Math.min(3, Math.round(spicy.value));
+    badges.push({ id: "spicyLevel", label: "🌶".repeat(level), kind: "spicy", isUncertain: !isConfident(spicy) });
+  }
+
+  return badges;
+};
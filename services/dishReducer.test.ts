@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import { Dish, DishImageStatus, DishImageVariant, PhotoStyle } from "../types";
+import { DishAction, canQueueImage, dishReducer } from "./dishReducer";
+
+const makeDish = (overrides: Partial<Dish> = {}): Dish => ({
+  id: "dish-1",
+  pageId: "page-1",
+  originalName: "Tortilla española",
+  englishTranslation: "Spanish omelette",
+  description: "Potato and egg omelette",
+  imageStatus: "idle",
+  ...overrides,
+});
+
+const makeVariant = (id: string, imageUrl = `/api/image/${id}`): DishImageVariant => ({
+  id,
+  imageUrl,
+  style: PhotoStyle.BRIGHT,
+  description: "Potato and egg omelette",
+  createdAt: 0,
+});
+
+const withStatus = (imageStatus: DishImageStatus, overrides: Partial<Dish> = {}) => [makeDish({ imageStatus, ...overrides })];
+
+// Applies actions in order and returns the only dish
+const run = (dishes: Dish[], ...actions: DishAction[]): Dish => actions.reduce(dishReducer, dishes)[0];
+
+describe("dishReducer image lifecycle", () => {
+  it("moves a dish from idle through queued and loading to ready", () => {
+    const variant = makeVariant("v1");
+    let dishes = withStatus("idle");
+
+    dishes = dishReducer(dishes, { type: "imageQueued", dishId: "dish-1" });
+    expect(dishes[0].imageStatus).toBe("queued");
+
+    dishes = dishReducer(dishes, { type: "imageStarted", dishId: "dish-1" });
+    expect(dishes[0].imageStatus).toBe("loading");
+
+    dishes = dishReducer(dishes, { type: "imageSucceeded", dishId: "dish-1", variant });
+    expect(dishes[0]).toMatchObject({
+      imageStatus: "ready",
+      generatedImageUrl: variant.imageUrl,
+      selectedVariantId: "v1",
+      imageVariants: [variant],
+    });
+  });
+
+  it("marks a dish without an image as failed with the error code", () => {
+    const dish = run(
+      withStatus("idle"),
+      { type: "imageQueued", dishId: "dish-1" },
+      { type: "imageStarted", dishId: "dish-1" },
+      { type: "imageFailed", dishId: "dish-1", error: "content_policy" }
+    );
+    expect(dish).toMatchObject({ imageStatus: "failed", imageError: "content_policy" });
+  });
+
+  it("lets a failed dish be queued again and clears its error", () => {
+    const dish = run(withStatus("failed", { imageError: "timeout" }), { type: "imageQueued", dishId: "dish-1" });
+    expect(dish.imageStatus).toBe("queued");
+    expect(dish.imageError).toBeUndefined();
+  });
+
+  it("can fail while still queued", () => {
+    const dish = run(withStatus("queued"), { type: "imageFailed", dishId: "dish-1", error: "rate_limited" });
+    expect(dish).toMatchObject({ imageStatus: "failed", imageError: "rate_limited" });
+  });
+
+  it("only starts dishes that are queued", () => {
+    for (const status of ["idle", "loading", "ready", "failed"] as DishImageStatus[]) {
+      const dishes = withStatus(status);
+      expect(dishReducer(dishes, { type: "imageStarted", dishId: "dish-1" })).toBe(dishes);
+    }
+  });
+
+  it("does not queue a dish that is already in progress", () => {
+    for (const status of ["queued", "loading"] as DishImageStatus[]) {
+      const dishes = withStatus(status);
+      expect(canQueueImage(dishes[0])).toBe(false);
+      expect(dishReducer(dishes, { type: "imageQueued", dishId: "dish-1" })).toBe(dishes);
+    }
+  });
+
+  describe("cancel", () => {
+    it("returns a dish without an image to idle", () => {
+      for (const status of ["queued", "loading"] as DishImageStatus[]) {
+        const dish = run(withStatus(status), { type: "imageCancelled", dishId: "dish-1" });
+        expect(dish.imageStatus).toBe("idle");
+      }
+    });
+
+    it("returns a dish that shows an image to ready", () => {
+      const dish = run(
+        withStatus("loading", { generatedImageUrl: "/api/image/old" }),
+        { type: "imageCancelled", dishId: "dish-1" }
+      );
+      expect(dish).toMatchObject({ imageStatus: "ready", generatedImageUrl: "/api/image/old" });
+    });
+
+    it("ignores dishes that are not in progress", () => {
+      for (const status of ["idle", "ready", "failed"] as DishImageStatus[]) {
+        const dishes = withStatus(status);
+        expect(dishReducer(dishes, { type: "imageCancelled", dishId: "dish-1" })).toBe(dishes);
+      }
+    });
+  });
+
+  describe("regenerate from ready", () => {
+    const first = makeVariant("v1");
+    const ready = () => withStatus("ready", {
+      imageVariants: [first],
+      selectedVariantId: "v1",
+      generatedImageUrl: first.imageUrl,
+    });
+
+    it("adds the new variant and selects it", () => {
+      const second = makeVariant("v2");
+      const dish = run(
+        ready(),
+        { type: "imageQueued", dishId: "dish-1" },
+        { type: "imageStarted", dishId: "dish-1" },
+        { type: "imageSucceeded", dishId: "dish-1", variant: second }
+      );
+      expect(dish).toMatchObject({
+        imageStatus: "ready",
+        generatedImageUrl: second.imageUrl,
+        selectedVariantId: "v2",
+        imageVariants: [first, second],
+      });
+    });
+
+    it("keeps showing the previous image when the regeneration fails", () => {
+      const dish = run(
+        ready(),
+        { type: "imageQueued", dishId: "dish-1" },
+        { type: "imageStarted", dishId: "dish-1" },
+        { type: "imageFailed", dishId: "dish-1", error: "quota_exceeded" }
+      );
+      expect(dish).toMatchObject({
+        imageStatus: "ready",
+        imageError: "quota_exceeded",
+        generatedImageUrl: first.imageUrl,
+        imageVariants: [first],
+      });
+    });
+  });
+
+  describe("late events", () => {
+    it("ignores a success for a dish that is not in progress", () => {
+      const variant = makeVariant("late");
+      for (const status of ["idle", "ready", "failed"] as DishImageStatus[]) {
+        const dishes = withStatus(status);
+        expect(dishReducer(dishes, { type: "imageSucceeded", dishId: "dish-1", variant })).toBe(dishes);
+      }
+    });
+
+    it("ignores a failure for a dish that is not in progress", () => {
+      for (const status of ["idle", "ready", "failed"] as DishImageStatus[]) {
+        const dishes = withStatus(status);
+        expect(dishReducer(dishes, { type: "imageFailed", dishId: "dish-1", error: "internal" })).toBe(dishes);
+      }
+    });
+
+    it("ignores a response that arrives after the request was cancelled", () => {
+      const dish = run(
+        withStatus("idle"),
+        { type: "imageQueued", dishId: "dish-1" },
+        { type: "imageStarted", dishId: "dish-1" },
+        { type: "imageCancelled", dishId: "dish-1" },
+        { type: "imageSucceeded", dishId: "dish-1", variant: makeVariant("late") }
+      );
+      expect(dish.imageStatus).toBe("idle");
+      expect(dish.generatedImageUrl).toBeUndefined();
+      expect(dish.imageVariants).toBeUndefined();
+    });
+
+    it("ignores events for unknown dishes", () => {
+      const dishes = withStatus("loading");
+      expect(dishReducer(dishes, { type: "imageFailed", dishId: "other", error: "internal" })).toBe(dishes);
+    });
+  });
+});
+
+describe("dishReducer clearImages", () => {
+  it("resets every dish to idle but keeps its variants", () => {
+    const variants = [makeVariant("v1"), makeVariant("v2")];
+    const dishes = [
+      makeDish({ imageStatus: "ready", imageVariants: variants, selectedVariantId: "v2", generatedImageUrl: variants[1].imageUrl }),
+      makeDish({ id: "dish-2", imageStatus: "failed", imageError: "timeout" }),
+    ];
+
+    const cleared = dishReducer(dishes, { type: "clearImages" });
+
+    expect(cleared[0]).toMatchObject({ imageStatus: "idle", imageVariants: variants });
+    expect(cleared[0].generatedImageUrl).toBeUndefined();
+    expect(cleared[0].selectedVariantId).toBeUndefined();
+    expect(cleared[1].imageStatus).toBe("idle");
+    expect(cleared[1].imageError).toBeUndefined();
+  });
+
+  it("lets a kept variant be selected again", () => {
+    const variants = [makeVariant("v1")];
+    const dish = run(
+      [makeDish({ imageStatus: "ready", imageVariants: variants, selectedVariantId: "v1", generatedImageUrl: variants[0].imageUrl })],
+      { type: "clearImages" },
+      { type: "selectVariant", dishId: "dish-1", variantId: "v1" }
+    );
+    expect(dish).toMatchObject({ selectedVariantId: "v1", generatedImageUrl: variants[0].imageUrl, imageStatus: "ready" });
+  });
+});
+
+describe("dishReducer selectVariant", () => {
+  const variants = [makeVariant("v1"), makeVariant("v2")];
+
+  it("marks a failed dish ready and clears its error", () => {
+    const dish = run(
+      withStatus("failed", { imageVariants: variants, imageError: "timeout" }),
+      { type: "selectVariant", dishId: "dish-1", variantId: "v2" }
+    );
+    expect(dish).toMatchObject({ imageStatus: "ready", generatedImageUrl: variants[1].imageUrl });
+    expect(dish.imageError).toBeUndefined();
+  });
+
+  it("leaves a dish being generated in progress", () => {
+    const dish = run(withStatus("loading", { imageVariants: variants }), { type: "selectVariant", dishId: "dish-1", variantId: "v1" });
+    expect(dish).toMatchObject({ imageStatus: "loading", selectedVariantId: "v1" });
+  });
+});
@@ -0,0 +1,107 @@
+import { Dish, DishExplanation, DishImageStatus, DishImageVariant, DishTranslation, RequestErrorCode, TargetLanguage } from "../types";
+import { mergeDishes } from "./menuMerge";
+import { applyTranslations } from "./menuTranslation";
+import { addImageVariant, selectImageVariant } from "./imageVariants";
+
+/**
+ * Every change to the dish list goes through this reducer. Photo generation
+ * follows idle → queued → loading → ready | failed; events that don't fit the
+ * dish's current status are ignored, so a late or duplicate response can't
+ * overwrite newer state.
+ */
+export type DishAction =
+  | { type: "set"; dishes: Dish[] }
+  | { type: "merge"; dishes: Dish[] }
+  | { type: "translate"; translations: DishTranslation[]; language: TargetLanguage }
+  | { type: "explain"; dishId: string; explanation: DishExplanation }
+  | { type: "selectVariant"; dishId: string; variantId: string }
+  // Drops the current images, e.g. after a style change; variants stay in history
+  | { type: "clearImages" }
+  | { type: "imageQueued"; dishId: string }
+  | { type: "imageStarted"; dishId: string }
+  | { type: "imageSucceeded"; dishId: string; variant: DishImageVariant }
+  | { type: "imageFailed"; dishId: string; error: RequestErrorCode }
+  | { type: "imageCancelled"; dishId: string };
+
+// Statuses from which a new image may be requested; "ready" covers regeneration
+const QUEUEABLE: DishImageStatus[] = ["idle", "failed", "ready"];
+const IN_PROGRESS: DishImageStatus[] = ["queued", "loading"];
+
+export const canQueueImage = (dish: Dish): boolean => QUEUEABLE.includes(dish.imageStatus);
+
+export const isImageInProgress = (dish: Dish): boolean => IN_PROGRESS.includes(dish.imageStatus);
+
+// A dish that already shows an image goes back to it when a regeneration ends without a new one
+const settledStatus = (dish: Dish): DishImageStatus => (dish.generatedImageUrl ? "ready" : "idle");
+
+const updateDish = (dishes: Dish[], dishId: string, update: (dish: Dish) => Dish): Dish[] => {
+  let changed = false;
+  const next = dishes.map((dish) => {
+    if (dish.id !== dishId) return dish;
+    const updated = update(dish);
+    if (updated !== dish) changed = true;
+    return updated;
+  });
+  return changed ? next : dishes;
+};
+
+export const dishReducer = (dishes: Dish[], action: DishAction): Dish[] => {
+  switch (action.type) {
+    case "set":
+      return action.dishes;
+
+    case "merge":
+      return mergeDishes(dishes, action.dishes);
+
+    case "translate":
+      return applyTranslations(dishes, action.translations, action.language);
+
+    case "explain":
+      return updateDish(dishes, action.dishId, (dish) => ({ ...dish, explanation: action.explanation }));
+
+    case "selectVariant":
+      return updateDish(dishes, action.dishId, (dish) => {
+        const selected = selectImageVariant(dish, action.variantId);
+        // Picking a kept variant after clearImages gives the dish its photo back;
+        // one still being generated keeps its status so the result still lands
+        if (selected === dish || isImageInProgress(dish)) return selected;
+        return { ...selected, imageStatus: "ready", imageError: undefined };
+      });
+
+    case "clearImages":
+      return dishes.map((dish) => ({
+        ...dish,
+        generatedImageUrl: undefined,
+        selectedVariantId: undefined,
+        imageStatus: "idle",
+        imageError: undefined,
+      }));
+
+    case "imageQueued":
+      return updateDish(dishes, action.dishId, (dish) =>
+        canQueueImage(dish) ? { ...dish, imageStatus: "queued", imageError: undefined } : dish
+      );
+
+    case "imageStarted":
+      return updateDish(dishes, action.dishId, (dish) =>
+        dish.imageStatus === "queued" ? { ...dish, imageStatus: "loading" } : dish
+      );
+
+    case "imageSucceeded":
+      return updateDish(dishes, action.dishId, (dish) =>
+        isImageInProgress(dish) ? { ...addImageVariant(dish, action.variant), imageStatus: "ready" } : dish
+      );
+
+    case "imageFailed":
+      return updateDish(dishes, action.dishId, (dish) =>
+        isImageInProgress(dish)
+          ? { ...dish, imageStatus: dish.generatedImageUrl ? "ready" : "failed", imageError: action.error }
+          : dish
+      );
+
+    case "imageCancelled":
+      return updateDish(dishes, action.dishId, (dish) =>
+        isImageInProgress(dish) ? { ...dish, imageStatus: settledStatus(dish) } : dish
+      );
+  }
+};
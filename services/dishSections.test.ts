@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { sortDishes } from "./dishSections";
+import { HKD_PRICE_CONTEXT, makePricedDish } from "./testFixtures";
+
+describe("sortDishes", () => {
+  it("compares prices in the menu currency", () => {
+    const dishes = [makePricedDish("wine", "€5"), makePricedDish("dumplings", "HK$40"), makePricedDish("tea", "12")];
+    expect(sortDishes(dishes, "priceAsc", HKD_PRICE_CONTEXT).map((d) => d.id)).toEqual(["tea", "dumplings", "wine"]);
+    expect(sortDishes(dishes, "priceDesc", HKD_PRICE_CONTEXT).map((d) => d.id)).toEqual(["wine", "dumplings", "tea"]);
+  });
+
+  it("puts prices it cannot read or convert last", () => {
+    const dishes = [makePricedDish("fish", "Market price"), makePricedDish("beer", "£6"), makePricedDish("tea", "12")];
+    expect(sortDishes(dishes, "priceDesc", HKD_PRICE_CONTEXT)[0].id).toBe("tea");
+  });
+});
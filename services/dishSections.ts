@@ -0,0 +1,86 @@
+import { Dish } from "../types";
+import { PriceContext, getMenuAmount } from "./currencyService";
+import { getDishName } from "./menuTranslation";
+
+export type DishSort = "menu" | "priceAsc" | "priceDesc" | "name";
+
+// Display order of the sort options; labels live in the i18n catalogs under "sort.*"
+export const DISH_SORTS: DishSort[] = ["menu", "priceAsc", "priceDesc", "name"];
+
+export const isDishSort = (value: unknown): value is DishSort =>
+  typeof value === "string" && (DISH_SORTS as string[]).includes(value);
+
+export interface DishSection {
+  // Stable across searches and filters, so it can key elements and anchors
+  id: string;
+  category: string;
+  dishes: Dish[];
+}
+
+/**
+ * Groups dishes by category in the order categories first appear on the menu.
+ * Dishes without a category share one section under the given label.
+ */
+export const groupDishesByCategory = (dishes: Dish[], uncategorizedLabel: string): DishSection[] => {
+  const sections: DishSection[] = [];
+  const byCategory = new Map<string, DishSection>();
+
+  for (const dish of dishes) {
+    const category = dish.category?.trim() || uncategorizedLabel;
+    let section = byCategory.get(category);
+    if (!section) {
+      section = { id: `category-${sections.length}`, category, dishes: [] };
+      byCategory.set(category, section);
+      sections.push(section);
+    }
+    section.dishes.push(dish);
+  }
+  return sections;
+};
+
+// Case- and accent-insensitive, so "creme brulee" finds "Crème brûlée"
+const normalizeSearchText = (text: string) =>
+  text.normalize("NFKD").replace(/\p{M}/gu, "").toLocaleLowerCase();
+
+/**
+ * True when every word of the query appears somewhere in the dish's original
+ * name, English or translated name, or either description.
+ */
+export const matchesSearch = (dish: Dish, query: string): boolean => {
+  const terms = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const text = normalizeSearchText([
+    dish.originalName,
+    dish.englishTranslation,
+    dish.translatedName ?? "",
+    dish.description,
+    dish.translatedDescription ?? "",
+  ].join("\n"));
+  return terms.every((term) => text.includes(term));
+};
+
+const nameCollator = new Intl.Collator(undefined, { sensitivity: "base", numeric: true });
+
+/**
+ * Returns the dishes in the requested order; "menu" keeps them as printed.
+ * Prices are compared in the menu currency. Dishes without a readable price,
+ * including market price, always sort last, as do prices that cannot be converted.
+ */
+export const sortDishes = (dishes: Dish[], sort: DishSort, priceContext: PriceContext): Dish[] => {
+  if (sort === "menu") return dishes;
+  if (sort === "name") {
+    return [...dishes].sort((a, b) => nameCollator.compare(getDishName(a), getDishName(b)));
+  }
+
+  const direction = sort === "priceAsc" ? 1 : -1;
+  const amounts = new Map<string, number | null>(dishes.map((dish) => [dish.id, getMenuAmount(dish.parsedPrice, priceContext)]));
+  return [...dishes].sort((a, b) => {
+    const priceA = amounts.get(a.id) ?? null;
+    const priceB = amounts.get(b.id) ?? null;
+    if (priceA === null || priceB === null) {
+      return priceA === priceB ? 0 : priceA === null ? 1 : -1;
+    }
+    return (priceA - priceB) * direction;
+  });
+};
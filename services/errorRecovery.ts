@@ -0,0 +1,44 @@
+import { RequestErrorCode } from "../types";
+import type { MessageKey } from "../i18n";
+
+// What the user was doing when a request failed; the same code can call for
+// a different next step, e.g. a content-policy refusal of a menu photo vs. a dish prompt
+export type ErrorContext = "menu" | "image" | "translate" | "explain";
+
+export type ErrorRecovery = "retry" | "retry_later" | "edit_prompt" | "new_photo" | "check_config" | "none";
+
+export const getErrorRecovery = (code: RequestErrorCode, context: ErrorContext): ErrorRecovery => {
+  switch (code) {
+    case "missing_api_key":
+    case "invalid_api_key":
+      return "check_config";
+    case "rate_limited":
+    case "quota_exceeded":
+      return "retry_later";
+    case "content_policy":
+    case "invalid_request":
+    case "payload_too_large":
+      if (context === "menu") return "new_photo";
+      return context === "image" ? "edit_prompt" : "none";
+    case "method_not_allowed":
+    case "not_found":
+      return "none";
+    default:
+      return "retry";
+  }
+};
+
+// Recoveries that come with a hint line; "retry" speaks for itself
+export const RECOVERY_HINT_KEYS: Partial<Record<ErrorRecovery, MessageKey>> = {
+  retry_later: "recovery.hint.retry_later",
+  edit_prompt: "recovery.hint.edit_prompt",
+  new_photo: "recovery.hint.new_photo",
+  check_config: "recovery.hint.check_config",
+};
+
+/**
+ * Message for a failure: specific codes get their own text, while internal
+ * and unknown failures keep the message of what was being attempted.
+ */
+export const getErrorMessageKey = (code: RequestErrorCode, fallbackKey: MessageKey): MessageKey =>
+  code === "internal" || code === "unknown" ? fallbackKey : `errorCode.${code}`;
@@ -0,0 +1,83 @@
+// Cheap per-frame quality checks for the camera preview, run on a downscaled frame.
+
+export type FrameIssue = "blurry" | "too_dark" | "too_bright" | "glare";
+
+export interface FrameQuality {
+  // Variance of the Laplacian: higher means more edges in focus
+  sharpness: number;
+  // Mean luminance, 0-255
+  brightness: number;
+  // Share of pixels at or near pure white, 0-1
+  highlightRatio: number;
+  issues: FrameIssue[];
+}
+
+// Tuned for frames analyzed at ANALYSIS_WIDTH; sharpness depends on resolution
+export const ANALYSIS_WIDTH = 320;
+const MIN_SHARPNESS = 60;
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 210;
+const MAX_HIGHLIGHT_RATIO = 0.12;
+
+export const analyzeFrame = ({ data, width, height }: ImageData): FrameQuality => {
+  const gray = new Float32Array(width * height);
+  let luminanceSum = 0;
+  let highlightCount = 0;
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    gray[p] = luminance;
+    luminanceSum += luminance;
+    if (luminance >= 250) highlightCount++;
+  }
+
+  // 4-neighbour Laplacian over interior pixels, accumulated as mean and variance
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const laplacian = gray[p - width] + gray[p + width] + gray[p - 1] + gray[p + 1] - 4 * gray[p];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const mean = count ? sum / count : 0;
+  const sharpness = count ? sumOfSquares / count - mean * mean : 0;
+  const pixelCount = width * height || 1;
+  const brightness = luminanceSum / pixelCount;
+  const highlightRatio = highlightCount / pixelCount;
+
+  const issues: FrameIssue[] = [];
+  if (brightness < MIN_BRIGHTNESS) issues.push("too_dark");
+  else if (brightness > MAX_BRIGHTNESS) issues.push("too_bright");
+  else if (highlightRatio > MAX_HIGHLIGHT_RATIO) issues.push("glare");
+  // A dark frame has few edges regardless of focus, so only flag blur when exposure is usable
+  if (sharpness < MIN_SHARPNESS && !issues.includes("too_dark")) issues.push("blurry");
+
+  return { sharpness, brightness, highlightRatio, issues };
+};
+
+/**
+ * Draws `source` scaled down to ANALYSIS_WIDTH on `canvas` and analyzes it.
+ * Reusing one canvas avoids allocating on every preview tick.
+ */
+export const analyzeSource = (
+  source: HTMLVideoElement | HTMLCanvasElement,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement
+): FrameQuality | null => {
+  if (!sourceWidth || !sourceHeight) return null;
+  const width = Math.min(ANALYSIS_WIDTH, sourceWidth);
+  const height = Math.round((sourceHeight / sourceWidth) * width);
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0, width, height);
+  return analyzeFrame(context.getImageData(0, 0, width, height));
+};
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ImageBatchEvent, MenuStreamEvent, PhotoStyle } from "../types";
+import { ApiError, generateDishPhotos, streamMenuImage } from "./geminiService";
+
+const ndjson = (events: (ImageBatchEvent | MenuStreamEvent)[]) =>
+  new Response(events.map((event) => `${JSON.stringify(event)}\n`).join(""), {
+    status: 200,
+    headers: { "Content-Type": "application/x-ndjson" },
+  });
+
+const dishes = ["a", "b", "c"].map((id) => ({ id, dishName: `Dish ${id}`, description: "" }));
+
+const sentDishIds = (fetchMock: ReturnType<typeof vi.fn>, call: number) =>
+  (JSON.parse(fetchMock.mock.calls[call][1].body) as { dishes: { id: string }[] }).dishes.map((d) => d.id);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("generateDishPhotos", () => {
+  it("sends dishes over the photo budget again and reports each dish once", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(ndjson([
+        { type: "image", dishId: "a", imageUrl: "/api/image/a", cached: false },
+        { type: "error", dishId: "b", error: "Photo budget used up", code: "rate_limited", retryAfterMs: 1 },
+        { type: "error", dishId: "c", error: "Photo budget used up", code: "rate_limited", retryAfterMs: 2 },
+        { type: "done" },
+      ]))
+      .mockResolvedValueOnce(ndjson([
+        { type: "image", dishId: "b", imageUrl: "/api/image/b", cached: true },
+        { type: "error", dishId: "c", error: "Blocked", code: "content_policy" },
+        { type: "done" },
+      ]));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const results: string[] = [];
+    await generateDishPhotos(dishes, PhotoStyle.BRIGHT, (event) => {
+      results.push(`${event.dishId}:${event.type === "image" ? "image" : event.code}`);
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentDishIds(fetchMock, 0)).toEqual(["a", "b", "c"]);
+    expect(sentDishIds(fetchMock, 1)).toEqual(["b", "c"]);
+    expect(results).toEqual(["a:image", "b:image", "c:content_policy"]);
+  });
+
+  it("rejects as rate limited when the batch is refused outright", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ error: "Too many requests, please slow down", code: "rate_limited" }),
+      { status: 429, headers: { "Retry-After": "4" } }
+    )));
+
+    const error = await generateDishPhotos(dishes, PhotoStyle.BRIGHT, () => {}).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: "rate_limited", status: 429, retryAfterMs: 4000 });
+  });
+});
+
+describe("streamMenuImage", () => {
+  const dish = { originalName: "Gyoza", englishTranslation: "Dumplings", ingredientsOrDescription: "Pan-fried" };
+
+  it("reports an unreadable line as an upstream failure", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response('{"type":"dish","dish":\n', { status: 200 })));
+
+    const error = await streamMenuImage("", "image/jpeg", "en", () => {}).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: "upstream_unavailable", status: 200 });
+  });
+
+  it("stops reporting dishes once aborted", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(ndjson([
+      { type: "dish", dish },
+      { type: "done", warnings: [] },
+    ])));
+    const controller = new AbortController();
+    const onDish = vi.fn();
+    controller.abort();
+
+    const error = await streamMenuImage("", "image/jpeg", "en", onDish, controller.signal).catch((e: unknown) => e);
+    expect(error).toMatchObject({ name: "AbortError" });
+    expect(onDish).not.toHaveBeenCalled();
+  });
+});
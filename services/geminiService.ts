@@ -1,113 +1,316 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { MenuAnalysisResponse } from "../types";
+import {
+  ApiErrorCode,
+  ApiErrorResponse,
+  Dish,
+  DishExplanation,
+  DishTranslation,
+  ImageBatchEvent,
+  MenuAnalysisResponse,
+  MenuParseWarning,
+  MenuStreamEvent,
+  MenuTranslationResponse,
+  PhotoStyle,
+  RequestErrorCode,
+  TargetLanguage,
+} from "../types";
+import { wait } from "./generationQueue";
 
-const MENU_PARSING_MODEL = "gemini-3-flash-preview";
+// All model calls go through the /api routes so API keys stay on the server.
+// For offline development, run the API with MENU_PARSER=fixture.
 
-// Check if we're in production (Vercel) or development
-const isProduction = import.meta.env.PROD;
-
-// For local development, get API key from env
-const getApiKey = () => {
-  if (typeof import.meta.env.VITE_GEMINI_API_KEY === 'string') {
-    return import.meta.env.VITE_GEMINI_API_KEY;
+// A failed /api request. `code` says why, for choosing a message and recovery;
+// `status` is absent when the request never got a response.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly code: RequestErrorCode,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ApiError";
   }
-  return null;
+}
+
+// Worth retrying automatically: the same request may succeed a little later
+const RETRYABLE_CODES: RequestErrorCode[] = ["rate_limited", "timeout", "upstream_unavailable", "internal", "network"];
+
+export const isRetryableError = (error: unknown) =>
+  error instanceof ApiError && RETRYABLE_CODES.includes(error.code);
+
+export const getErrorCode = (error: unknown): RequestErrorCode =>
+  error instanceof ApiError ? error.code : "unknown";
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// For responses without a code, e.g. the platform's own 413 or gateway timeout
+const codeFromStatus = (status: number): ApiErrorCode => {
+  if (status === 404) return "not_found";
+  if (status === 413) return "payload_too_large";
+  if (status === 429) return "rate_limited";
+  if (status === 504) return "timeout";
+  if (status === 502 || status === 503) return "upstream_unavailable";
+  return status >= 500 ? "internal" : "invalid_request";
+};
+
+const toApiError = async (response: Response, fallbackMessage: string): Promise<ApiError> => {
+  const body: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+  return new ApiError(
+    body.error || fallbackMessage,
+    body.code ?? codeFromStatus(response.status),
+    response.status,
+    parseRetryAfter(response.headers.get("Retry-After"))
+  );
 };
 
-export const parseMenuImage = async (base64Image: string): Promise<MenuAnalysisResponse> => {
-  // In production, use API route (key stays on server)
-  if (isProduction) {
-    const response = await fetch("/api/parse-menu", {
+const postJson = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  try {
+    return await fetch(path, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ base64Image }),
+      body: JSON.stringify(body),
+      signal,
     });
+  } catch (error) {
+    // Cancellation is not a failure; callers check for it themselves
+    if (signal?.aborted) throw error;
+    throw new ApiError(error instanceof Error ? error.message : "Network request failed", "network");
+  }
+};
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to parse menu");
+/**
+ * Reads an NDJSON body, calling `onEvent` for each line until it returns true.
+ * Resolves with false if the stream ended before that, and rejects with an
+ * AbortError once `signal` is aborted.
+ */
+const readNdjson = async <T>(
+  response: Response,
+  onEvent: (event: T) => boolean,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  if (!response.body) return false;
+  const reader = response.body.getReader();
+  // A line that is not JSON means the stream was mangled on the way, like one cut short
+  const parseLine = (line: string): T => {
+    try {
+      return JSON.parse(line) as T;
+    } catch {
+      throw new ApiError("Unreadable line in response stream", "upstream_unavailable", response.status);
+    }
+  };
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (signal?.aborted) {
+      await reader.cancel().catch(() => {});
+      signal.throwIfAborted();
     }
+    buffer += decoder.decode(value, { stream: !done });
 
-    return await response.json();
+    // Keep the trailing partial line for the next read
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim() && onEvent(parseLine(line))) return true;
+    }
+
+    if (done) return false;
   }
+};
+
+export const parseMenuImage = async (
+  base64Image: string,
+  mimeType: string,
+  targetLanguage: TargetLanguage
+): Promise<MenuAnalysisResponse> => {
+  const response = await postJson("/api/parse-menu", { base64Image, mimeType, targetLanguage });
 
-  // In development, call Gemini directly
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    throw new Error("VITE_GEMINI_API_KEY not set in .env.local");
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to parse menu");
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-
-  const responseSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      dishes: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            originalName: { type: Type.STRING, description: "The name of the item as it appears on the menu." },
-            englishTranslation: { type: Type.STRING, description: "English translation of the name." },
-            ingredientsOrDescription: { type: Type.STRING, description: "A concise visual description of the main ingredients and presentation." },
-            price: { type: Type.STRING, description: "The price of the item including currency symbol. If not found, leave empty." },
-            category: { type: Type.STRING, description: "The category or section this item belongs to (e.g., 'Starters', 'Mains', 'Drinks', 'Desserts')." },
-          },
-          required: ["originalName", "englishTranslation", "ingredientsOrDescription"],
-        },
-      },
-    },
-    required: ["dishes"],
-  };
+  return await response.json();
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: MENU_PARSING_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: base64Image,
-            },
-          },
-          {
-            text: "Analyze this menu image. Identify all distinct items listed, including food and drinks. For each item, provide the original name, an English translation, the price (if available), the category/section it belongs to, and a short visual description based on its ingredients.",
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        systemInstruction: "You are a culinary expert assisting a food photographer. Extract all menu items accurately, including beverages.",
-      },
-    });
+/**
+ * Streams the menu parse: `onDish` is called for each dish as soon as the
+ * model has finished describing it. Resolves with the final warnings.
+ * Aborting `signal` stops the stream, and no more dishes are reported.
+ */
+export const streamMenuImage = async (
+  base64Image: string,
+  mimeType: string,
+  targetLanguage: TargetLanguage,
+  onDish: (dish: MenuAnalysisResponse["dishes"][number]) => void,
+  signal?: AbortSignal
+): Promise<MenuParseWarning[]> => {
+  const response = await postJson("/api/parse-menu", { base64Image, mimeType, targetLanguage, stream: true }, signal);
+
+  if (!response.ok || !response.body) {
+    throw await toApiError(response, "Failed to parse menu");
+  }
 
-    const text = response.text;
-    if (!text) throw new Error("No text response from Gemini");
+  let warnings: MenuParseWarning[] = [];
+  const finished = await readNdjson<MenuStreamEvent>(response, (event) => {
+    if (event.type === "dish") onDish(event.dish);
+    if (event.type === "error") throw new ApiError(event.error, event.code ?? "internal", response.status);
+    if (event.type !== "done") return false;
+    warnings = event.warnings;
+    return true;
+  }, signal);
 
-    return JSON.parse(text) as MenuAnalysisResponse;
-  } catch (error) {
-    console.error("Error parsing menu:", error);
-    throw error;
+  if (!finished) {
+    throw new ApiError("Menu stream ended unexpectedly", "upstream_unavailable", response.status);
   }
+  return warnings;
 };
 
+// Matches the server's per-request limit
+const TRANSLATION_BATCH_SIZE = 100;
+
+/**
+ * Re-translates parsed dishes into another language from their text alone,
+ * without parsing the menu image again.
+ */
+export const translateMenu = async (dishes: Dish[], targetLanguage: TargetLanguage): Promise<DishTranslation[]> => {
+  const translations: DishTranslation[] = [];
+
+  for (let i = 0; i < dishes.length; i += TRANSLATION_BATCH_SIZE) {
+    const batch = dishes.slice(i, i + TRANSLATION_BATCH_SIZE).map(({ id, originalName, englishTranslation, description }) => ({
+      id,
+      originalName,
+      englishTranslation,
+      description,
+    }));
+
+    const response = await postJson("/api/translate-menu", { dishes: batch, targetLanguage });
+
+    if (!response.ok) {
+      throw await toApiError(response, "Failed to translate menu");
+    }
+
+    const data: MenuTranslationResponse = await response.json();
+    translations.push(...data.translations);
+  }
+
+  return translations;
+};
+
+export const explainDish = async (dish: Dish, targetLanguage: TargetLanguage): Promise<DishExplanation> => {
+  const response = await postJson("/api/explain-dish", {
+    originalName: dish.originalName,
+    englishTranslation: dish.englishTranslation,
+    description: dish.description,
+    targetLanguage,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to explain dish");
+  }
+
+  return await response.json();
+};
+
+export interface DishPhotoOptions {
+  // Extra prompt direction from the user
+  instructions?: string;
+  // Ask for a fresh image instead of a cached one
+  regenerate?: boolean;
+  signal?: AbortSignal;
+}
+
 export const generateDishPhoto = async (
   dishName: string,
-  description: string
+  description: string,
+  style: PhotoStyle,
+  { instructions, regenerate = false, signal }: DishPhotoOptions = {}
 ): Promise<string> => {
-  const response = await fetch("/api/generate-image", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ dishName, description }),
-  });
+  const response = await postJson("/api/generate-image", { dishName, description, style, instructions, regenerate }, signal);
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || "Failed to generate image");
+    throw await toApiError(response, "Failed to generate image");
   }
 
   const data = await response.json();
   return data.imageUrl;
 };
+
+// Matches the server's per-request limit
+export const IMAGE_BATCH_SIZE = 24;
+
+export interface BatchPhotoRequest {
+  id: string;
+  dishName: string;
+  description: string;
+}
+
+type BatchPhotoResult = Exclude<ImageBatchEvent, { type: "done" }>;
+
+const requestDishPhotos = async (
+  dishes: BatchPhotoRequest[],
+  style: PhotoStyle,
+  onEvent: (event: BatchPhotoResult) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await postJson("/api/generate-images", { dishes, style }, signal);
+
+  if (!response.ok || !response.body) {
+    throw await toApiError(response, "Failed to generate images");
+  }
+
+  const finished = await readNdjson<ImageBatchEvent>(response, (event) => {
+    if (event.type === "done") return true;
+    onEvent(event);
+    return false;
+  }, signal);
+
+  if (!finished) {
+    throw new ApiError("Image stream ended unexpectedly", "upstream_unavailable", response.status);
+  }
+};
+
+/**
+ * Generates photos for up to IMAGE_BATCH_SIZE dishes. `onResult` gets each
+ * dish's image or error as soon as it finishes.
+ *
+ * The server charges the shared photo budget per dish and skips dishes past
+ * it, so those are sent again once it says there is room, for as long as each
+ * round gets some photos made. The promise rejects when the request as a
+ * whole fails, or with rate_limited when a round got nothing done.
+ */
+export const generateDishPhotos = async (
+  dishes: BatchPhotoRequest[],
+  style: PhotoStyle,
+  onResult: (event: BatchPhotoResult) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  let pending = dishes;
+  while (pending.length > 0) {
+    const skipped = new Set<string>();
+    let retryAfterMs = 0;
+
+    await requestDishPhotos(pending, style, (event) => {
+      if (event.type === "error" && event.retryAfterMs !== undefined) {
+        skipped.add(event.dishId);
+        retryAfterMs = Math.max(retryAfterMs, event.retryAfterMs);
+      } else {
+        onResult(event);
+      }
+    }, signal);
+
+    if (skipped.size === pending.length) {
+      throw new ApiError("Photo budget used up", "rate_limited", 429, retryAfterMs);
+    }
+    pending = pending.filter(dish => skipped.has(dish.id));
+    if (pending.length > 0) await wait(retryAfterMs, signal);
+  }
+};
@@ -0,0 +1,162 @@
+// Client-side scheduler for dish photo requests: caps how many run at once,
+// starts visible dishes first, retries rate limits and server errors with
+// backoff, and aborts everything in flight on cancel.
+
+export interface GenerationQueueOptions {
+  concurrency: number;
+  // Retries after the first attempt, only for retryable errors
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Decides whether a failed attempt is worth repeating
+  isRetryable: (error: unknown) => boolean;
+  // Server-suggested wait (e.g. from Retry-After), overriding the backoff
+  getRetryDelay?: (error: unknown) => number | undefined;
+}
+
+export interface GenerationQueue {
+  /**
+   * Schedules `run` under `id` and resolves with its result. Higher priority
+   * starts first; an id already queued or running returns the same promise.
+   */
+  enqueue<T>(id: string, run: (signal: AbortSignal) => Promise<T>, priority?: number): Promise<T>;
+  // True while `id` is waiting or running
+  has(id: string): boolean;
+  // Re-ranks a job that has not started yet
+  setPriority(id: string, priority: number): void;
+  setConcurrency(concurrency: number): void;
+  // Aborts running jobs and rejects everything still waiting
+  cancelAll(): void;
+}
+
+export const PRIORITY_VISIBLE = 1;
+export const PRIORITY_OFFSCREEN = 0;
+
+interface Job {
+  id: string;
+  priority: number;
+  // Tie-breaker so equal priorities run in the order they were requested
+  sequence: number;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+export const createAbortError = () => new DOMException("Generation cancelled", "AbortError");
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+// Resolves after `ms`, or rejects early when the signal aborts
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export const createGenerationQueue = (options: GenerationQueueOptions): GenerationQueue => {
+  let concurrency = Math.max(1, options.concurrency);
+  let sequence = 0;
+  const waiting: Job[] = [];
+  const running = new Map<string, Job>();
+
+  // Exponential backoff with full jitter, so parallel retries don't line up
+  const backoff = (attempt: number) =>
+    Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+  const runWithRetries = async (job: Job) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await job.run(job.controller.signal);
+      } catch (error) {
+        if (job.controller.signal.aborted) throw createAbortError();
+        if (attempt >= options.maxRetries || !options.isRetryable(error)) throw error;
+        await wait(options.getRetryDelay?.(error) ?? backoff(attempt), job.controller.signal);
+      }
+    }
+  };
+
+  const pump = () => {
+    while (running.size < concurrency && waiting.length > 0) {
+      waiting.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+      const job = waiting.shift()!;
+      running.set(job.id, job);
+      runWithRetries(job)
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          // A cancelled job may already have been replaced under the same id
+          if (running.get(job.id) === job) running.delete(job.id);
+          pump();
+        });
+    }
+  };
+
+  return {
+    enqueue<T>(id: string, run: (signal: AbortSignal) => Promise<T>, priority = PRIORITY_OFFSCREEN) {
+      const existing = running.get(id) ?? waiting.find(job => job.id === id);
+      if (existing) return existing.promise as Promise<T>;
+
+      let resolve!: (value: unknown) => void;
+      let reject!: (reason: unknown) => void;
+      const promise = new Promise<unknown>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      waiting.push({ id, priority, sequence: sequence++, run, controller: new AbortController(), promise, resolve, reject });
+      pump();
+      return promise as Promise<T>;
+    },
+
+    has(id) {
+      return running.has(id) || waiting.some(job => job.id === id);
+    },
+
+    setPriority(id, priority) {
+      const job = waiting.find(j => j.id === id);
+      if (job) job.priority = priority;
+    },
+
+    setConcurrency(next) {
+      concurrency = Math.max(1, next);
+      pump();
+    },
+
+    cancelAll() {
+      for (const job of waiting.splice(0)) job.reject(createAbortError());
+      for (const job of running.values()) job.controller.abort();
+      running.clear();
+    },
+  };
+};
+
+const CONCURRENCY_STORAGE_KEY = "gourmetvision.photoConcurrency";
+
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+export const DEFAULT_CONCURRENCY = 3;
+
+export const loadConcurrency = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+    if (CONCURRENCY_OPTIONS.includes(stored)) return stored;
+  } catch (error) {
+    console.error("Error loading photo concurrency:", error);
+  }
+  return DEFAULT_CONCURRENCY;
+};
+
+export const saveConcurrency = (concurrency: number) => {
+  try {
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+  } catch (error) {
+    console.error("Error saving photo concurrency:", error);
+  }
+};
@@ -0,0 +1,265 @@
+// Prepares menu photos before upload: real format detection, EXIF orientation,
+// downscaling, optional contrast/grayscale and re-encoding to a size budget.
+
+export interface PreprocessOptions {
+  // Longest side in pixels after downscaling
+  maxLongEdge: number;
+  // Target size of the encoded image in bytes
+  maxBytes: number;
+  enhanceContrast: boolean;
+  grayscale: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxLongEdge: 2048,
+  maxBytes: 1_500_000,
+  enhanceContrast: false,
+  grayscale: false,
+};
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  // Data URL without the "data:...;base64," header, as the API expects
+  base64: string;
+  mimeType: string;
+}
+
+const PASSTHROUGH_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const CONTRAST_FACTOR = 1.35;
+
+/**
+ * Detects the image format from its magic bytes rather than the file
+ * extension or browser-reported type, which are often wrong for HEIC.
+ */
+export const detectImageFormat = (bytes: Uint8Array): string | null => {
+  const ascii = (start: number, length: number) => String.fromCharCode(...bytes.slice(start, start + length));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x89 && ascii(1, 3) === "PNG") return "image/png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") return "image/webp";
+  if (ascii(0, 3) === "GIF") return "image/gif";
+  if (ascii(4, 4) === "ftyp") {
+    const brand = ascii(8, 4);
+    if (["heic", "heix", "hevc", "hevx", "heim", "heis"].includes(brand)) return "image/heic";
+    if (["mif1", "msf1"].includes(brand)) return "image/heif";
+    if (brand === "avif") return "image/avif";
+  }
+  return null;
+};
+
+/**
+ * Reads the EXIF orientation tag (1-8) from a JPEG. Returns 1 (upright) when
+ * there is no EXIF block or the tag is missing.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 < view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+      const entryCount = view.getUint16(ifdStart, littleEndian);
+
+      for (let i = 0; i < entryCount; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+
+    // Start of scan: no more metadata segments
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    offset += 2 + segmentLength;
+  }
+  return 1;
+};
+
+let appliesOrientationPromise: Promise<boolean> | null = null;
+
+/**
+ * Modern browsers rotate JPEGs by their EXIF tag when decoding; older ones
+ * don't. Detect it by decoding a 2x1 JPEG tagged "rotate 90°" and checking
+ * whether it comes back 1x2, so we never rotate twice.
+ */
+const browserAppliesExifOrientation = (): Promise<boolean> => {
+  if (!appliesOrientationPromise) {
+    appliesOrientationPromise = (async () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = 2;
+        canvas.height = 1;
+        const jpeg = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg"));
+        if (!jpeg) return true;
+
+        const body = new Uint8Array(await jpeg.arrayBuffer()).slice(2);
+        // SOI, then an APP1 Exif segment with a single Orientation = 6 entry
+        const exif = new Uint8Array([
+          0xff, 0xd8, 0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+          0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00, 0x01, 0x01, 0x12,
+          0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, 0x00, 0x00,
+          0x00, 0x00,
+        ]);
+        const bitmap = await createImageBitmap(new Blob([exif, body], { type: "image/jpeg" }));
+        const applies = bitmap.width === 1 && bitmap.height === 2;
+        bitmap.close();
+        return applies;
+      } catch {
+        return true;
+      }
+    })();
+  }
+  return appliesOrientationPromise;
+};
+
+// Sets the canvas transform so drawing the raw bitmap at (0, 0) comes out upright
+const applyOrientationTransform = (
+  context: CanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+) => {
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+// Done on pixels rather than with context.filter, which older Safari ignores
+const adjustPixels = (context: CanvasRenderingContext2D, width: number, height: number, options: PreprocessOptions) => {
+  const imageData = context.getImageData(0, 0, width, height);
+  const data = imageData.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+
+    if (options.grayscale) {
+      const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = g = b = luminance;
+    }
+    if (options.enhanceContrast) {
+      r = (r - 128) * CONTRAST_FACTOR + 128;
+      g = (g - 128) * CONTRAST_FACTOR + 128;
+      b = (b - 128) * CONTRAST_FACTOR + 128;
+    }
+
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  context.putImageData(imageData, 0, 0);
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toPreprocessedImage = async (blob: Blob, mimeType: string): Promise<PreprocessedImage> => {
+  const dataUrl = await blobToDataUrl(blob);
+  return { dataUrl, base64: dataUrl.split(",")[1], mimeType };
+};
+
+// Steps JPEG quality down, then shrinks the canvas, until the output fits the budget
+const encodeWithinBudget = async (canvas: HTMLCanvasElement, maxBytes: number): Promise<Blob> => {
+  let source = canvas;
+  let smallest: Blob | null = null;
+
+  for (let attempt = 0; attempt < 4; attempt++) {
+    for (const quality of [0.9, 0.8, 0.7, 0.6, 0.5]) {
+      const blob = await new Promise<Blob | null>((resolve) => source.toBlob(resolve, "image/jpeg", quality));
+      if (!blob) throw new Error("Failed to encode image");
+      if (blob.size <= maxBytes) return blob;
+      if (!smallest || blob.size < smallest.size) smallest = blob;
+    }
+
+    const scaled = document.createElement("canvas");
+    scaled.width = Math.round(source.width * 0.8);
+    scaled.height = Math.round(source.height * 0.8);
+    scaled.getContext("2d")!.drawImage(source, 0, 0, scaled.width, scaled.height);
+    source = scaled;
+  }
+
+  return smallest!;
+};
+
+export const preprocessImage = async (
+  blob: Blob,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessedImage> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const format = detectImageFormat(bytes) ?? blob.type ?? "image/jpeg";
+  const orientation = format === "image/jpeg" ? readExifOrientation(bytes) : 1;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch (error) {
+    if (format === "image/heic" || format === "image/heif") {
+      throw new Error("This browser can't read HEIC photos. Please convert the photo to JPEG or PNG.");
+    }
+    throw error;
+  }
+
+  const needsRotation = orientation > 1 && !(await browserAppliesExifOrientation());
+  const isSideways = needsRotation && orientation >= 5;
+  const uprightWidth = isSideways ? bitmap.height : bitmap.width;
+  const uprightHeight = isSideways ? bitmap.width : bitmap.height;
+  const scale = Math.min(1, options.maxLongEdge / Math.max(uprightWidth, uprightHeight));
+  const needsAdjustment = options.enhanceContrast || options.grayscale;
+
+  // Already small, upright and in a format the API reads: send the original bytes.
+  // A rotated photo is always re-encoded, even when the browser shows it upright,
+  // since the server ignores the EXIF tag and would read the page sideways.
+  if (
+    scale === 1 &&
+    orientation === 1 &&
+    !needsAdjustment &&
+    blob.size <= options.maxBytes &&
+    PASSTHROUGH_TYPES.includes(format)
+  ) {
+    bitmap.close();
+    return toPreprocessedImage(blob, format);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(uprightWidth * scale);
+  canvas.height = Math.round(uprightHeight * scale);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+
+  context.scale(scale, scale);
+  if (needsRotation) {
+    applyOrientationTransform(context, orientation, bitmap.width, bitmap.height);
+  }
+  context.drawImage(bitmap, 0, 0);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  bitmap.close();
+
+  if (needsAdjustment) {
+    adjustPixels(context, canvas.width, canvas.height, options);
+  }
+
+  const encoded = await encodeWithinBudget(canvas, options.maxBytes);
+  return toPreprocessedImage(encoded, "image/jpeg");
+};
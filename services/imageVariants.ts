@@ -0,0 +1,40 @@
+import { Dish, DishImageVariant, PhotoStyle } from "../types";
+
+// Older variants are dropped past this, since each one is a full image in saved sessions
+export const MAX_IMAGE_VARIANTS = 6;
+
+/**
+ * Smaller WebP rendition of a served image for the card grid. Saved
+ * sessions restore images as blob URLs, which are used as they are.
+ */
+export const toImageRenditionUrl = (imageUrl: string, size: "card" | "thumb"): string =>
+  imageUrl.startsWith("/api/image/") ? `${imageUrl}?size=${size}` : imageUrl;
+
+export const createImageVariant = (
+  dishId: string,
+  imageUrl: string,
+  style: PhotoStyle,
+  description: string,
+  instructions?: string
+): DishImageVariant => ({
+  id: `${dishId}-variant-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  imageUrl,
+  style,
+  description,
+  instructions: instructions?.trim() || undefined,
+  createdAt: Date.now(),
+});
+
+// Appends a new variant and makes it the selected image
+export const addImageVariant = (dish: Dish, variant: DishImageVariant): Dish => ({
+  ...dish,
+  imageVariants: [...(dish.imageVariants ?? []), variant].slice(-MAX_IMAGE_VARIANTS),
+  selectedVariantId: variant.id,
+  generatedImageUrl: variant.imageUrl,
+});
+
+export const selectImageVariant = (dish: Dish, variantId: string): Dish => {
+  const variant = dish.imageVariants?.find(v => v.id === variantId);
+  if (!variant) return dish;
+  return { ...dish, selectedVariantId: variant.id, generatedImageUrl: variant.imageUrl };
+};
@@ -0,0 +1,384 @@
+import { EXPORT_THEMES, ExportDish, ExportDocument, ExportLayout, ExportTheme } from "./menuExport";
+import { A4_PAGE, PdfPageImage, createImagePdf } from "./pdfWriter";
+
+// Draws an ExportDocument onto canvases: paginated A4 pages for the PDF and a
+// single tall image for sharing. Sizes are in canvas pixels.
+
+// Page layout is measured in A4 at 150 dpi and drawn at PRINT_SCALE times
+// that, i.e. 300 dpi, so text stays crisp on paper
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const PAGE_MARGIN = 90;
+const PRINT_SCALE = 2;
+
+const POSTER_WIDTH = 1080;
+const POSTER_MARGIN = 64;
+// Browsers refuse to allocate much taller canvases; longer menus are scaled down to fit
+const MAX_POSTER_HEIGHT = 16000;
+
+const TITLE_HEIGHT = 130;
+const HEADING_HEIGHT = 84;
+const FOOTER_HEIGHT = 60;
+const GRID_GAP = 36;
+const LIST_PHOTO = { width: 220, height: 165 };
+const ROW_GAP = 28;
+
+type Row = { kind: "heading"; category: string } | { kind: "dishes"; dishes: ExportDish[] };
+
+interface RenderContext {
+  ctx: CanvasRenderingContext2D;
+  theme: ExportTheme;
+  layout: ExportLayout;
+  images: Map<string, HTMLImageElement | null>;
+  contentWidth: number;
+}
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement | null>((resolve) => {
+    const image = new Image();
+    // Hosted images must allow CORS, or drawing them would block exporting the canvas
+    if (/^https?:/.test(url)) image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+
+const loadImages = async (menu: ExportDocument) => {
+  const urls = new Set(menu.sections.flatMap(section => section.dishes.map(dish => dish.imageUrl)).filter(Boolean) as string[]);
+  const entries = await Promise.all(Array.from(urls, async (url) => [url, await loadImage(url)] as const));
+  return new Map(entries);
+};
+
+const toRows = (menu: ExportDocument, layout: ExportLayout): Row[] => {
+  const perRow = layout === "grid" ? 2 : 1;
+  return menu.sections.flatMap((section) => {
+    const rows: Row[] = [{ kind: "heading", category: section.category }];
+    for (let i = 0; i < section.dishes.length; i += perRow) {
+      rows.push({ kind: "dishes", dishes: section.dishes.slice(i, i + perRow) });
+    }
+    return rows;
+  });
+};
+
+const gridColumnWidth = (contentWidth: number) => (contentWidth - GRID_GAP) / 2;
+
+const rowHeight = (row: Row, layout: ExportLayout, contentWidth: number): number => {
+  if (row.kind === "heading") return HEADING_HEIGHT;
+  switch (layout) {
+    case "grid":
+      return gridColumnWidth(contentWidth) * 0.75 + 156 + ROW_GAP;
+    case "list":
+      return LIST_PHOTO.height + ROW_GAP;
+    case "compact":
+      return 78;
+  }
+};
+
+/**
+ * Wraps text to `maxWidth`, breaking between words where there are spaces and
+ * between characters otherwise (e.g. Chinese or Japanese). Overflow past
+ * `maxLines` is cut with an ellipsis.
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const fits = (value: string) => ctx.measureText(value.trimEnd()).width <= maxWidth;
+  const lines: string[] = [];
+  let line = "";
+
+  for (const unit of text.match(/\S+\s*/g) ?? []) {
+    if (fits(line + unit)) {
+      line += unit;
+      continue;
+    }
+    if (line) lines.push(line.trimEnd());
+    line = "";
+    if (fits(unit)) {
+      line = unit;
+      continue;
+    }
+    for (const char of Array.from(unit)) {
+      if (line && !fits(line + char)) {
+        lines.push(line.trimEnd());
+        line = "";
+      }
+      line += char;
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && !fits(`${last}…`)) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last}…`;
+  return kept;
+};
+
+const drawLines = (ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, lineHeight: number) => {
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+};
+
+// Draws the image cropped to fill the box, like CSS object-fit: cover
+const drawPhoto = (
+  { ctx, theme, images }: RenderContext,
+  url: string | undefined,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, 12);
+  ctx.clip();
+  ctx.fillStyle = theme.surface;
+  ctx.fillRect(x, y, width, height);
+  const image = url ? images.get(url) : null;
+  if (image) {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    ctx.drawImage(
+      image,
+      (image.naturalWidth - sourceWidth) / 2,
+      (image.naturalHeight - sourceHeight) / 2,
+      sourceWidth,
+      sourceHeight,
+      x,
+      y,
+      width,
+      height
+    );
+  }
+  ctx.restore();
+};
+
+const drawHeading = ({ ctx, theme, contentWidth }: RenderContext, category: string, x: number, y: number) => {
+  ctx.fillStyle = theme.accent;
+  ctx.font = `bold 26px ${theme.bodyFont}`;
+  ctx.fillText(wrapText(ctx, category.toUpperCase(), contentWidth, 1)[0] ?? "", x, y + 22);
+  ctx.fillRect(x, y + 60, contentWidth, 2);
+};
+
+const drawGridCard = (context: RenderContext, dish: ExportDish, x: number, y: number, width: number) => {
+  const { ctx, theme } = context;
+  const photoHeight = width * 0.75;
+  drawPhoto(context, dish.imageUrl, x, y, width, photoHeight);
+
+  let textY = y + photoHeight + 20;
+  ctx.fillStyle = theme.text;
+  ctx.font = `bold 28px ${theme.headingFont}`;
+  drawLines(ctx, wrapText(ctx, dish.name, width, 2), x, textY, 34);
+  textY += 74;
+  if (dish.originalName) {
+    ctx.fillStyle = theme.muted;
+    ctx.font = `italic 20px ${theme.bodyFont}`;
+    drawLines(ctx, wrapText(ctx, dish.originalName, width, 1), x, textY, 26);
+  }
+  textY += 34;
+  if (dish.price) {
+    ctx.fillStyle = theme.accent;
+    ctx.font = `bold 22px ${theme.bodyFont}`;
+    drawLines(ctx, wrapText(ctx, dish.price, width, 1), x, textY, 28);
+  }
+};
+
+const drawListRow = (context: RenderContext, dish: ExportDish, x: number, y: number, width: number) => {
+  const { ctx, theme } = context;
+  drawPhoto(context, dish.imageUrl, x, y, LIST_PHOTO.width, LIST_PHOTO.height);
+
+  const textX = x + LIST_PHOTO.width + 28;
+  const textWidth = width - LIST_PHOTO.width - 28;
+  ctx.font = `bold 22px ${theme.bodyFont}`;
+  const priceWidth = dish.price ? Math.min(ctx.measureText(dish.price).width, textWidth / 3) : 0;
+  if (dish.price) {
+    ctx.fillStyle = theme.accent;
+    ctx.textAlign = "right";
+    ctx.fillText(wrapText(ctx, dish.price, priceWidth, 1)[0] ?? "", x + width, y + 6);
+    ctx.textAlign = "left";
+  }
+
+  let textY = y;
+  ctx.fillStyle = theme.text;
+  ctx.font = `bold 28px ${theme.headingFont}`;
+  const nameLines = wrapText(ctx, dish.name, textWidth - priceWidth - 16, 2);
+  drawLines(ctx, nameLines, textX, textY, 34);
+  textY += nameLines.length * 34 + 4;
+  if (dish.originalName) {
+    ctx.fillStyle = theme.muted;
+    ctx.font = `italic 20px ${theme.bodyFont}`;
+    drawLines(ctx, wrapText(ctx, dish.originalName, textWidth, 1), textX, textY, 26);
+    textY += 32;
+  }
+  ctx.fillStyle = theme.muted;
+  ctx.font = `19px ${theme.bodyFont}`;
+  const descriptionLines = Math.max(1, Math.floor((y + LIST_PHOTO.height - textY) / 26));
+  drawLines(ctx, wrapText(ctx, dish.description, textWidth, descriptionLines), textX, textY, 26);
+};
+
+const drawCompactRow = ({ ctx, theme }: RenderContext, dish: ExportDish, x: number, y: number, width: number) => {
+  ctx.font = `bold 22px ${theme.bodyFont}`;
+  const priceWidth = dish.price ? Math.min(ctx.measureText(dish.price).width, width / 3) : 0;
+  if (dish.price) {
+    ctx.fillStyle = theme.accent;
+    ctx.textAlign = "right";
+    ctx.fillText(wrapText(ctx, dish.price, priceWidth, 1)[0] ?? "", x + width, y + 2);
+    ctx.textAlign = "left";
+  }
+
+  ctx.fillStyle = theme.text;
+  ctx.font = `bold 24px ${theme.headingFont}`;
+  const name = wrapText(ctx, dish.name, width - priceWidth - 40, 1)[0] ?? "";
+  ctx.fillText(name, x, y);
+
+  // Dotted leader between the name and the price
+  if (dish.price) {
+    const start = x + ctx.measureText(name).width + 12;
+    const end = x + width - priceWidth - 12;
+    ctx.fillStyle = theme.muted;
+    for (let dotX = start; dotX < end; dotX += 10) ctx.fillRect(dotX, y + 20, 2, 2);
+  }
+
+  if (dish.originalName) {
+    ctx.fillStyle = theme.muted;
+    ctx.font = `italic 18px ${theme.bodyFont}`;
+    ctx.fillText(wrapText(ctx, dish.originalName, width, 1)[0] ?? "", x, y + 32);
+  }
+};
+
+const drawRow = (context: RenderContext, row: Row, x: number, y: number) => {
+  if (row.kind === "heading") return drawHeading(context, row.category, x, y);
+  const { layout, contentWidth } = context;
+  if (layout === "grid") {
+    const columnWidth = gridColumnWidth(contentWidth);
+    row.dishes.forEach((dish, i) => drawGridCard(context, dish, x + i * (columnWidth + GRID_GAP), y, columnWidth));
+  } else if (layout === "list") {
+    drawListRow(context, row.dishes[0], x, y, contentWidth);
+  } else {
+    drawCompactRow(context, row.dishes[0], x, y, contentWidth);
+  }
+};
+
+const drawTitle = ({ ctx, theme, contentWidth }: RenderContext, title: string, x: number, y: number) => {
+  ctx.fillStyle = theme.text;
+  ctx.font = `bold 52px ${theme.headingFont}`;
+  ctx.textAlign = "center";
+  ctx.fillText(wrapText(ctx, title, contentWidth, 1)[0] ?? "", x + contentWidth / 2, y + 20);
+  ctx.textAlign = "left";
+  ctx.fillStyle = theme.accent;
+  ctx.fillRect(x + contentWidth / 2 - 40, y + 96, 80, 3);
+};
+
+const drawFooter = ({ ctx, theme, contentWidth }: RenderContext, notice: string, pageLabel: string, x: number, y: number) => {
+  ctx.fillStyle = theme.muted;
+  ctx.font = `16px ${theme.bodyFont}`;
+  ctx.fillText(wrapText(ctx, notice, contentWidth - 120, 1)[0] ?? "", x, y);
+  if (pageLabel) {
+    ctx.textAlign = "right";
+    ctx.fillText(pageLabel, x + contentWidth, y);
+    ctx.textAlign = "left";
+  }
+};
+
+const createContext = (canvas: HTMLCanvasElement, menu: ExportDocument, layout: ExportLayout, images: RenderContext["images"], contentWidth: number): RenderContext => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.textBaseline = "top";
+  return { ctx, theme: EXPORT_THEMES[menu.style], layout, images, contentWidth };
+};
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode export"))), type, quality)
+  );
+
+// Splits rows into pages, never leaving a category heading alone at the bottom of a page
+const paginate = (rows: Row[], layout: ExportLayout, contentWidth: number): Row[][] => {
+  const firstPageTop = PAGE_MARGIN + TITLE_HEIGHT;
+  const bottom = PAGE_HEIGHT - PAGE_MARGIN - FOOTER_HEIGHT;
+  const pages: Row[][] = [[]];
+  let y = firstPageTop;
+
+  rows.forEach((row, i) => {
+    const height = rowHeight(row, layout, contentWidth);
+    const next = rows[i + 1];
+    const keepWith = row.kind === "heading" && next ? rowHeight(next, layout, contentWidth) : 0;
+    if (y + height + keepWith > bottom && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_MARGIN;
+    }
+    pages[pages.length - 1].push(row);
+    y += height;
+  });
+  return pages;
+};
+
+/**
+ * Renders the menu as A4 pages and packs them into a PDF. Pages are drawn one
+ * at a time on a single canvas to keep memory flat for long menus. Each page
+ * is one image, so its text cannot be selected or searched.
+ */
+export const renderMenuPdf = async (menu: ExportDocument, layout: ExportLayout): Promise<Blob> => {
+  const images = await loadImages(menu);
+  const contentWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+  const pages = paginate(toRows(menu, layout), layout, contentWidth);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = PAGE_WIDTH * PRINT_SCALE;
+  canvas.height = PAGE_HEIGHT * PRINT_SCALE;
+  const context = createContext(canvas, menu, layout, images, contentWidth);
+  context.ctx.scale(PRINT_SCALE, PRINT_SCALE);
+
+  const pdfPages: PdfPageImage[] = [];
+  for (const [index, rows] of pages.entries()) {
+    const { ctx, theme } = context;
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+
+    let y = PAGE_MARGIN;
+    if (index === 0) {
+      drawTitle(context, menu.title, PAGE_MARGIN, y);
+      y += TITLE_HEIGHT;
+    }
+    for (const row of rows) {
+      drawRow(context, row, PAGE_MARGIN, y);
+      y += rowHeight(row, layout, contentWidth);
+    }
+    drawFooter(context, menu.notice, `${index + 1} / ${pages.length}`, PAGE_MARGIN, PAGE_HEIGHT - PAGE_MARGIN - 16);
+
+    const jpeg = await canvasToBytes(canvas, "image/jpeg", 0.88);
+    pdfPages.push({ jpeg: new Uint8Array(await jpeg.arrayBuffer()), width: canvas.width, height: canvas.height });
+  }
+
+  return createImagePdf(pdfPages, { title: menu.title, pageWidth: A4_PAGE.width, pageHeight: A4_PAGE.height });
+};
+
+// One tall PNG in the grid layout, sized for social posts
+export const renderMenuPoster = async (menu: ExportDocument): Promise<Blob> => {
+  const layout: ExportLayout = "grid";
+  const images = await loadImages(menu);
+  const contentWidth = POSTER_WIDTH - POSTER_MARGIN * 2;
+  const rows = toRows(menu, layout);
+  const height =
+    POSTER_MARGIN * 2 + TITLE_HEIGHT + FOOTER_HEIGHT + rows.reduce((sum, row) => sum + rowHeight(row, layout, contentWidth), 0);
+  const scale = Math.min(1, MAX_POSTER_HEIGHT / height);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(POSTER_WIDTH * scale);
+  canvas.height = Math.round(height * scale);
+  const context = createContext(canvas, menu, layout, images, contentWidth);
+  const { ctx, theme } = context;
+  ctx.scale(scale, scale);
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, POSTER_WIDTH, height);
+
+  let y = POSTER_MARGIN;
+  drawTitle(context, menu.title, POSTER_MARGIN, y);
+  y += TITLE_HEIGHT;
+  for (const row of rows) {
+    drawRow(context, row, POSTER_MARGIN, y);
+    y += rowHeight(row, layout, contentWidth);
+  }
+  drawFooter(context, menu.notice, "", POSTER_MARGIN, y + 20);
+
+  return canvasToBytes(canvas, "image/png");
+};
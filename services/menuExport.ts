@@ -0,0 +1,127 @@
+import { Dish, PhotoStyle, TargetLanguage } from "../types";
+import { getDishDescription, getDishName } from "./menuTranslation";
+
+// Shared model for the PDF, HTML and PNG exports; each renderer only reads this.
+
+export type ExportLayout = "grid" | "list" | "compact";
+
+export const EXPORT_LAYOUTS: ExportLayout[] = ["grid", "list", "compact"];
+
+export interface ExportDish {
+  id: string;
+  name: string;
+  // Omitted when it is the same as the display name
+  originalName?: string;
+  description: string;
+  price?: string;
+  // The selected image variant, if the dish has one
+  imageUrl?: string;
+}
+
+export interface ExportSection {
+  category: string;
+  dishes: ExportDish[];
+}
+
+export interface ExportDocument {
+  title: string;
+  style: PhotoStyle;
+  // Language of the display text
+  language: TargetLanguage;
+  sections: ExportSection[];
+  // Printed in the footer, e.g. that the photos are AI-generated
+  notice: string;
+}
+
+export interface ExportTheme {
+  background: string;
+  surface: string;
+  text: string;
+  muted: string;
+  accent: string;
+  headingFont: string;
+  bodyFont: string;
+}
+
+// Each export picks up the look of the photo style the dishes were shot in
+export const EXPORT_THEMES: Record<PhotoStyle, ExportTheme> = {
+  [PhotoStyle.RUSTIC]: {
+    background: "#2a1f18",
+    surface: "#3b2c22",
+    text: "#f5e9dc",
+    muted: "#c9b49f",
+    accent: "#e0a458",
+    headingFont: "Georgia, 'Times New Roman', serif",
+    bodyFont: "Georgia, 'Times New Roman', serif",
+  },
+  [PhotoStyle.BRIGHT]: {
+    background: "#ffffff",
+    surface: "#f8fafc",
+    text: "#1c1917",
+    muted: "#78716c",
+    accent: "#047857",
+    headingFont: "Georgia, 'Times New Roman', serif",
+    bodyFont: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+  },
+  [PhotoStyle.SOCIAL]: {
+    background: "#fdf2f8",
+    surface: "#ffffff",
+    text: "#831843",
+    muted: "#9d5c7d",
+    accent: "#db2777",
+    headingFont: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+    bodyFont: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+  },
+};
+
+/**
+ * Groups dishes by category in the order categories first appear on the menu,
+ * using display text in the reader's language.
+ */
+export const createExportDocument = (
+  dishes: Dish[],
+  options: { title: string; style: PhotoStyle; language: TargetLanguage; uncategorizedLabel: string; notice: string }
+): ExportDocument => {
+  const sections = new Map<string, ExportDish[]>();
+
+  for (const dish of dishes) {
+    const category = dish.category?.trim() || options.uncategorizedLabel;
+    const name = getDishName(dish);
+    const items = sections.get(category) ?? [];
+    items.push({
+      id: dish.id,
+      name,
+      originalName: dish.originalName !== name ? dish.originalName : undefined,
+      description: getDishDescription(dish),
+      price: dish.price,
+      imageUrl: dish.generatedImageUrl,
+    });
+    sections.set(category, items);
+  }
+
+  return {
+    title: options.title,
+    style: options.style,
+    language: options.language,
+    notice: options.notice,
+    sections: Array.from(sections, ([category, items]) => ({ category, dishes: items })),
+  };
+};
+
+// Keeps letters in any script, so translated session names still make readable file names
+export const toExportFileName = (title: string, extension: string): string => {
+  const base = title.normalize("NFKC").replace(/[\\/:*?"<>|]+/g, "").replace(/\s+/g, "-").slice(0, 80);
+  return `${base || "menu"}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
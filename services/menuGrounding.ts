@@ -0,0 +1,20 @@
+import { BoundingBox } from "../types";
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Converts a Gemini [yMin, xMin, yMax, xMax] box on a 0-1000 scale into a
+ * normalized rectangle. Returns undefined for missing or degenerate boxes.
+ */
+export const toBoundingBox = (raw?: number[]): BoundingBox | undefined => {
+  if (!Array.isArray(raw) || raw.length !== 4 || raw.some((n) => typeof n !== "number" || !Number.isFinite(n))) {
+    return undefined;
+  }
+
+  const [yMin, xMin, yMax, xMax] = raw.map((n) => clamp01(n / 1000));
+  const width = xMax - xMin;
+  const height = yMax - yMin;
+  if (width <= 0 || height <= 0) return undefined;
+
+  return { x: xMin, y: yMin, width, height };
+};
@@ -0,0 +1,98 @@
+import { EXPORT_THEMES, ExportDish, ExportDocument, ExportLayout } from "./menuExport";
+
+// Builds a single HTML file that opens offline: styles are embedded and dish
+// photos are inlined as data URLs.
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!);
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Falls back to the original URL when the image can't be read (e.g. a hosted image without CORS)
+const inlineImage = async (url: string): Promise<string> => {
+  if (url.startsWith("data:")) return url;
+  try {
+    const response = await fetch(url);
+    // An error page would inline as a broken image; the URL at least loads while online
+    if (!response.ok) throw new Error(`Image request failed: ${response.status}`);
+    return await blobToDataUrl(await response.blob());
+  } catch (error) {
+    console.warn("Could not inline image for export:", error);
+    return url;
+  }
+};
+
+const renderDish = (dish: ExportDish, imageSrc: string | undefined, layout: ExportLayout) => `
+      <article class="dish">
+        ${layout !== "compact" ? `<div class="photo">${imageSrc ? `<img src="${escapeHtml(imageSrc)}" alt="${escapeHtml(dish.name)}">` : ""}</div>` : ""}
+        <div class="text">
+          <div class="heading"><h3>${escapeHtml(dish.name)}</h3>${dish.price ? `<span class="price">${escapeHtml(dish.price)}</span>` : ""}</div>
+          ${dish.originalName ? `<p class="original">${escapeHtml(dish.originalName)}</p>` : ""}
+          ${layout !== "compact" ? `<p class="description">${escapeHtml(dish.description)}</p>` : ""}
+        </div>
+      </article>`;
+
+export const renderMenuHtml = async (menu: ExportDocument, layout: ExportLayout): Promise<string> => {
+  const theme = EXPORT_THEMES[menu.style];
+  const urls = new Set(menu.sections.flatMap(section => section.dishes.map(dish => dish.imageUrl)).filter(Boolean) as string[]);
+  const inlined = new Map(await Promise.all(Array.from(urls, async (url) => [url, await inlineImage(url)] as const)));
+
+  const sections = menu.sections
+    .map(
+      (section) => `
+    <section>
+      <h2>${escapeHtml(section.category)}</h2>
+      <div class="dishes">${section.dishes
+        .map((dish) => renderDish(dish, dish.imageUrl ? inlined.get(dish.imageUrl) : undefined, layout))
+        .join("")}
+      </div>
+    </section>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(menu.language)}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(menu.title)}</title>
+  <style>
+    :root { --bg: ${theme.background}; --surface: ${theme.surface}; --text: ${theme.text}; --muted: ${theme.muted}; --accent: ${theme.accent}; }
+    * { box-sizing: border-box; }
+    body { margin: 0; background: var(--bg); color: var(--text); font-family: ${theme.bodyFont}; }
+    main { max-width: 960px; margin: 0 auto; padding: 48px 24px; }
+    h1 { font-family: ${theme.headingFont}; font-size: 2.5rem; text-align: center; margin: 0 0 40px; }
+    h2 { color: var(--accent); text-transform: uppercase; letter-spacing: 0.08em; font-size: 1rem; border-bottom: 2px solid var(--accent); padding-bottom: 8px; margin: 40px 0 20px; }
+    h3 { font-family: ${theme.headingFont}; font-size: 1.2rem; margin: 0; }
+    .heading { display: flex; justify-content: space-between; align-items: baseline; gap: 12px; }
+    .price { color: var(--accent); font-weight: bold; white-space: nowrap; }
+    .original { color: var(--muted); font-style: italic; margin: 4px 0 0; }
+    .description { color: var(--muted); font-size: 0.9rem; line-height: 1.5; margin: 8px 0 0; }
+    .photo { background: var(--surface); border-radius: 10px; overflow: hidden; aspect-ratio: 4 / 3; }
+    .photo img { width: 100%; height: 100%; object-fit: cover; display: block; }
+    .layout-grid .dishes { display: grid; grid-template-columns: repeat(auto-fill, minmax(260px, 1fr)); gap: 28px; }
+    .layout-grid .text { padding-top: 12px; }
+    .layout-list .dish { display: flex; gap: 20px; margin-bottom: 24px; }
+    .layout-list .photo { flex: 0 0 200px; }
+    .layout-list .text { flex: 1; }
+    .layout-compact .dish { margin-bottom: 14px; }
+    footer { color: var(--muted); font-size: 0.8rem; text-align: center; margin-top: 48px; }
+    article, section h2 { break-inside: avoid; page-break-inside: avoid; }
+    @media print { body { -webkit-print-color-adjust: exact; print-color-adjust: exact; } main { padding: 0; } }
+  </style>
+</head>
+<body class="layout-${layout}">
+  <main>
+    <h1>${escapeHtml(menu.title)}</h1>${sections}
+    <footer>${escapeHtml(menu.notice)}</footer>
+  </main>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,26 @@
+import { Dish } from "../types";
+
+const normalize = (value?: string) => (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+// Two dishes are the same item when both the printed name and price match.
+// Price whitespace is ignored so "¥ 800" and "¥800" collapse together.
+export const getDishKey = (dish: Pick<Dish, "originalName" | "price">): string =>
+  `${normalize(dish.originalName)}|${normalize(dish.price).replace(/\s/g, "")}`;
+
+/**
+ * Appends newly parsed dishes to an existing session, skipping duplicates.
+ * The first occurrence wins, so a dish keeps the page it was first seen on.
+ */
+export const mergeDishes = (existing: Dish[], incoming: Dish[]): Dish[] => {
+  const seen = new Set(existing.map(getDishKey));
+  const merged = [...existing];
+
+  for (const dish of incoming) {
+    const key = getDishKey(dish);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(dish);
+  }
+
+  return merged;
+};
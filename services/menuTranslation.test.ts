@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { guessSpeechLanguage } from "./menuTranslation";
+
+describe("guessSpeechLanguage", () => {
+  it("reads the language from the script", () => {
+    expect(guessSpeechLanguage("麻婆豆腐")).toBe("zh");
+    expect(guessSpeechLanguage("김치찌개")).toBe("ko");
+    expect(guessSpeechLanguage("ต้มยำกุ้ง")).toBe("th");
+    expect(guessSpeechLanguage("Борщ")).toBe("ru");
+  });
+
+  it("reads Han text as Japanese only alongside kana", () => {
+    expect(guessSpeechLanguage("親子丼")).toBe("zh");
+    expect(guessSpeechLanguage("天ぷら")).toBe("ja");
+    expect(guessSpeechLanguage("親子丼とみそ汁")).toBe("ja");
+  });
+
+  it("leaves Latin text to the default voice", () => {
+    expect(guessSpeechLanguage("Tortilla española")).toBeUndefined();
+  });
+});
@@ -0,0 +1,58 @@
+import { Dish, DishTranslation, TargetLanguage } from "../types";
+
+// Display text in the reader's language, falling back to English when a translation is missing
+export const getDishName = (dish: Dish): string => dish.translatedName ?? dish.englishTranslation;
+
+export const getDishDescription = (dish: Dish): string => dish.translatedDescription ?? dish.description;
+
+// Dishes parsed without a language predate translation support and are English
+export const needsTranslation = (dish: Dish, language: TargetLanguage): boolean =>
+  (dish.translationLanguage ?? "en") !== language;
+
+/**
+ * Applies translations returned by /api/translate-menu. Dishes missing from the
+ * response keep English text but are still marked, so they are not re-requested
+ * on every render.
+ */
+export const applyTranslations = (
+  dishes: Dish[],
+  translations: DishTranslation[],
+  language: TargetLanguage
+): Dish[] => {
+  const byId = new Map(translations.map((t) => [t.id, t]));
+  return dishes.map((dish) => {
+    if (!needsTranslation(dish, language)) return dish;
+    const translation = language === "en" ? undefined : byId.get(dish.id);
+    return {
+      ...dish,
+      translatedName: translation?.translatedName,
+      translatedDescription: translation?.translatedDescription,
+      translationLanguage: language,
+    };
+  });
+};
+
+// Scripts that point to one language. Kana comes before Han, since Japanese mixes both.
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, "ja"],
+  [/\p{Script=Hangul}/u, "ko"],
+  [/\p{Script=Han}/u, "zh"],
+  [/\p{Script=Thai}/u, "th"],
+  [/\p{Script=Lao}/u, "lo"],
+  [/\p{Script=Khmer}/u, "km"],
+  [/\p{Script=Devanagari}/u, "hi"],
+  [/\p{Script=Arabic}/u, "ar"],
+  [/\p{Script=Hebrew}/u, "he"],
+  [/\p{Script=Greek}/u, "el"],
+  [/\p{Script=Cyrillic}/u, "ru"],
+  [/\p{Script=Georgian}/u, "ka"],
+  [/\p{Script=Armenian}/u, "hy"],
+];
+
+/**
+ * Guesses a speech language for menu text from its script, so the name can be
+ * read aloud before an explanation has named the language. Latin text is left
+ * to the browser's default voice, as the script alone says little about it.
+ */
+export const guessSpeechLanguage = (text: string): string | undefined =>
+  SCRIPT_LANGUAGES.find(([script]) => script.test(text))?.[1];
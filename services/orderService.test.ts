@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ORDER_SETTINGS, calculateOrder } from "./orderService";
+import { HKD_PRICE_CONTEXT, makePricedDish } from "./testFixtures";
+
+describe("calculateOrder", () => {
+  it("converts prices in other currencies to the menu currency", () => {
+    const dishes = [makePricedDish("dumplings", "HK$40"), makePricedDish("wine", "€5")];
+    const totals = calculateOrder(dishes, { dumplings: 2, wine: 1 }, DEFAULT_ORDER_SETTINGS, HKD_PRICE_CONTEXT);
+    expect(totals.subtotal).toBe(160);
+    expect(totals.groups[0].lines[1]).toMatchObject({ unitAmount: 80, lineTotal: 80 });
+  });
+
+  it("leaves out and counts prices it cannot read or convert", () => {
+    const dishes = [makePricedDish("tea", "38"), makePricedDish("fish", "Market price"), makePricedDish("beer", "£6")];
+    const totals = calculateOrder(dishes, { tea: 1, fish: 1, beer: 2 }, DEFAULT_ORDER_SETTINGS, HKD_PRICE_CONTEXT);
+    expect(totals).toMatchObject({ subtotal: 38, itemCount: 4, unpricedCount: 1, unconvertedCount: 1 });
+  });
+});
@@ -0,0 +1,104 @@
+import { Dish } from "../types";
+import { PriceContext, getMenuAmount } from "./currencyService";
+
+export interface OrderSettings {
+  taxPercent: number;
+  tipPercent: number;
+  people: number;
+}
+
+export const DEFAULT_ORDER_SETTINGS: OrderSettings = {
+  taxPercent: 0,
+  tipPercent: 0,
+  people: 1,
+};
+
+export interface OrderLine {
+  dish: Dish;
+  quantity: number;
+  // In the menu currency; null when the dish has no readable price (missing or
+  // market price) or is priced in a currency without an exchange rate
+  unitAmount: number | null;
+  lineTotal: number | null;
+}
+
+export interface OrderGroup {
+  category: string;
+  lines: OrderLine[];
+  subtotal: number;
+}
+
+export interface OrderTotals {
+  groups: OrderGroup[];
+  itemCount: number;
+  // Lines that could not be priced and are left out of the totals
+  unpricedCount: number;
+  // Lines priced in another currency that could not be converted, also left out
+  unconvertedCount: number;
+  subtotal: number;
+  tax: number;
+  tip: number;
+  total: number;
+  perPerson: number;
+}
+
+const UNCATEGORIZED = "Other";
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Builds the running bill for the selected dishes. Groups keep the order in
+ * which categories appear on the menu. Tip is calculated on the pre-tax subtotal.
+ * Amounts are in the menu currency; prices in other currencies are converted first.
+ */
+export const calculateOrder = (
+  dishes: Dish[],
+  quantities: Record<string, number>,
+  settings: OrderSettings,
+  priceContext: PriceContext
+): OrderTotals => {
+  const groups: OrderGroup[] = [];
+  let itemCount = 0;
+  let unpricedCount = 0;
+  let unconvertedCount = 0;
+
+  for (const dish of dishes) {
+    const quantity = quantities[dish.id] ?? 0;
+    if (quantity <= 0) continue;
+
+    const unitAmount = getMenuAmount(dish.parsedPrice, priceContext);
+    const lineTotal = unitAmount === null ? null : unitAmount * quantity;
+    if (lineTotal === null) {
+      if ((dish.parsedPrice?.amount ?? null) === null) unpricedCount += 1;
+      else unconvertedCount += 1;
+    }
+    itemCount += quantity;
+
+    const category = dish.category?.trim() || UNCATEGORIZED;
+    let group = groups.find((g) => g.category === category);
+    if (!group) {
+      group = { category, lines: [], subtotal: 0 };
+      groups.push(group);
+    }
+    group.lines.push({ dish, quantity, unitAmount, lineTotal });
+    group.subtotal += lineTotal ?? 0;
+  }
+
+  const subtotal = groups.reduce((sum, g) => sum + g.subtotal, 0);
+  const tax = subtotal * (settings.taxPercent / 100);
+  const tip = subtotal * (settings.tipPercent / 100);
+  const total = subtotal + tax + tip;
+  const people = Math.max(1, Math.floor(settings.people));
+
+  return {
+    groups,
+    itemCount,
+    unpricedCount,
+    unconvertedCount,
+    subtotal: roundMoney(subtotal),
+    tax: roundMoney(tax),
+    tip: roundMoney(tip),
+    total: roundMoney(total),
+    perPerson: roundMoney(total / people),
+  };
+};
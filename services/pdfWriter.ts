@@ -0,0 +1,100 @@
+// Minimal PDF writer: one full-bleed JPEG per page. Pages are rendered to
+// canvas first, so any script the browser can draw ends up in the PDF without
+// embedding fonts.
+
+export interface PdfPageImage {
+  jpeg: Uint8Array;
+  // Pixel size of the JPEG
+  width: number;
+  height: number;
+}
+
+export interface PdfOptions {
+  title?: string;
+  // Page size in points (1/72 inch); A4 by default
+  pageWidth?: number;
+  pageHeight?: number;
+}
+
+export const A4_PAGE = { width: 595.28, height: 841.89 };
+
+const encoder = new TextEncoder();
+
+// Info strings as UTF-16BE hex with a byte order mark, which PDF readers accept for any script
+const toPdfTextString = (value: string): string => {
+  let hex = "FEFF";
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+export const createImagePdf = (pages: PdfPageImage[], options: PdfOptions = {}): Blob => {
+  const pageWidth = options.pageWidth ?? A4_PAGE.width;
+  const pageHeight = options.pageHeight ?? A4_PAGE.height;
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, 3 info, then three per page
+  const pageObject = (index: number) => 4 + index * 3;
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // The binary comment marks the file as binary for transfer tools
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+
+  beginObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageObject(i)} 0 R`).join(" ");
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  write(`<< /Producer (GourmetVision)${options.title ? ` /Title ${toPdfTextString(options.title)}` : ""} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageObject(i);
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+
+    beginObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`
+    );
+
+    // Scale the unit-square image to fill the page
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+    beginObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(imageId);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write("\nendstream\nendobj\n");
+  });
+
+  const objectCount = pageObject(pages.length);
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: "application/pdf" });
+};
@@ -0,0 +1,137 @@
+// Four-corner perspective correction for photographed menu pages.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Normalized (0-1) quad covering the whole image, so an unadjusted shot keeps items printed at the edges
+export const DEFAULT_CROP_QUAD: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+// Keeps the corrected page within what the preprocessor would downscale to anyway
+const MAX_OUTPUT_EDGE = 3000;
+
+// Solves Ax = b in place with partial pivoting
+const solveLinearSystem = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error("Crop corners must not be collinear");
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+/**
+ * Returns the 3x3 homography (row-major, last entry 1) mapping each `from`
+ * corner onto the matching `to` corner.
+ */
+export const computeHomography = (from: Quad, to: Quad): number[] => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  });
+  return [...solveLinearSystem(a, b), 1];
+};
+
+export const applyHomography = (h: number[], { x, y }: Point): Point => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Output size from the longer of each pair of opposite edges, in source pixels
+const getOutputSize = (corners: Quad) => {
+  const [tl, tr, br, bl] = corners;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, MAX_OUTPUT_EDGE / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Warps the region inside `quad` (normalized to the source size) into an
+ * upright rectangle. Uses inverse mapping with bilinear sampling.
+ */
+export const warpPerspective = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const corners = quad.map(({ x, y }) => ({ x: x * source.width, y: y * source.height })) as Quad;
+  const { width, height } = getOutputSize(corners);
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ];
+  // Maps output pixels back into the source so every output pixel gets a value
+  const h = computeHomography(target, corners);
+
+  const sourceData = source.getContext("2d")!.getImageData(0, 0, source.width, source.height);
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const outputContext = output.getContext("2d")!;
+  const outputData = outputContext.createImageData(width, height);
+  const src = sourceData.data;
+  const dst = outputData.data;
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      const sx = Math.min(maxX, Math.max(0, p.x - 0.5));
+      const sy = Math.min(maxY, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const i00 = (y0 * source.width + x0) * 4;
+      const i10 = (y0 * source.width + x1) * 4;
+      const i01 = (y1 * source.width + x0) * 4;
+      const i11 = (y1 * source.width + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] * (1 - fx) + src[i10 + c] * fx;
+        const bottom = src[i01 + c] * (1 - fx) + src[i11 + c] * fx;
+        dst[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  outputContext.putImageData(outputData, 0, 0);
+  return output;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { getMenuCurrency, parsePrice } from "./priceParser";
+
+describe("parsePrice", () => {
+  it("reads marked currencies", () => {
+    expect(parsePrice("€12,50").currency).toBe("EUR");
+    expect(parsePrice("HK$88").currency).toBe("HKD");
+    expect(parsePrice("CA$12").currency).toBe("CAD");
+    expect(parsePrice("NZ$18").currency).toBe("NZD");
+    expect(parsePrice("A$15").currency).toBe("AUD");
+    expect(parsePrice("38元").currency).toBe("CNY");
+    expect(parsePrice("1,200円")).toMatchObject({ currency: "JPY", amount: 1200 });
+  });
+
+  it("leaves a bare yen sign to the menu", () => {
+    expect(parsePrice("¥38")).toMatchObject({ currency: null, amount: 38 });
+    expect(parsePrice("￥1,200")).toMatchObject({ currency: null, amount: 1200 });
+  });
+
+  it("reads prefixed yuan and yen signs without leaving them in the label", () => {
+    expect(parsePrice("CN¥38")).toMatchObject({ currency: "CNY", options: [{ label: undefined, amount: 38 }] });
+    expect(parsePrice("RMB 38")).toMatchObject({ currency: "CNY", options: [{ label: undefined, amount: 38 }] });
+    expect(parsePrice("JP¥980").currency).toBe("JPY");
+    expect(parsePrice("Small CN¥28 / Large CN¥38").options).toEqual([
+      { label: "Small", amount: 28 },
+      { label: "Large", amount: 38 },
+    ]);
+  });
+});
+
+describe("getMenuCurrency", () => {
+  const prices = (...raws: string[]) => raws.map(parsePrice);
+
+  it("reads a bare yen sign on a Chinese menu as yuan", () => {
+    expect(getMenuCurrency(prices("¥38", "¥42"), ["宫保鸡丁", "麻婆豆腐"])).toBe("CNY");
+  });
+
+  it("reads a bare yen sign on a Japanese menu as yen", () => {
+    expect(getMenuCurrency(prices("¥980", "¥1,200"), ["天ぷら", "刺身"])).toBe("JPY");
+  });
+
+  it("follows another price that names the currency", () => {
+    expect(getMenuCurrency(prices("¥980", "¥1,200", "500円"), ["Tempura", "Sashimi", "Miso"])).toBe("JPY");
+    expect(getMenuCurrency(prices("¥38", "¥42", "10元"), ["Dumplings", "Noodles", "Tea"])).toBe("CNY");
+  });
+
+  it("counts yen-sign prices towards the currency they resolve to", () => {
+    expect(getMenuCurrency(prices("¥38", "¥42", "¥18", "US$5"), ["宫保鸡丁", "麻婆豆腐", "米饭", "Coke"])).toBe("CNY");
+  });
+
+  it("does not guess when nothing tells yuan from yen", () => {
+    expect(getMenuCurrency(prices("¥38", "¥42"), ["Dumplings", "Noodles"])).toBeNull();
+  });
+
+  it("picks the most common currency otherwise", () => {
+    expect(getMenuCurrency(prices("€8", "€12", "$5", "9"), [])).toBe("EUR");
+    expect(getMenuCurrency(prices("9", "12"), [])).toBeNull();
+  });
+});
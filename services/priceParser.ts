@@ -0,0 +1,174 @@
+import { ParsedPrice, PriceOption } from "../types";
+
+// Checked in order, so prefixed dollar signs must come before the bare "$".
+// One-letter prefixes must not be the tail of a longer one, e.g. the "A$" in "CA$".
+const CURRENCY_MARKERS: [RegExp, string][] = [
+  [/US\$/i, "USD"],
+  [/HK\$/i, "HKD"],
+  [/NT\$/i, "TWD"],
+  [/(?<![A-Z])A\$|AU\$/i, "AUD"],
+  [/(?<![A-Z])C\$|CA\$/i, "CAD"],
+  [/(?<![A-Z])S\$|SG\$/i, "SGD"],
+  [/(?<![A-Z])R\$/i, "BRL"],
+  [/NZ\$/i, "NZD"],
+  [/MX\$/i, "MXN"],
+  [/CN[¥￥]|RMB|元|块/i, "CNY"],
+  [/JP[¥￥]|円/i, "JPY"],
+  [/€/, "EUR"],
+  [/£/, "GBP"],
+  [/₩|원/, "KRW"],
+  [/₹/, "INR"],
+  [/฿|บาท/, "THB"],
+  [/₫/, "VND"],
+  [/₱/, "PHP"],
+  [/₺/, "TRY"],
+  [/zł/i, "PLN"],
+  [/Kč/i, "CZK"],
+  [/\$/, "USD"],
+];
+
+// A bare "¥" is written for both yuan and yen, so the price is left without a
+// currency and getMenuCurrency decides from the rest of the menu
+const YEN_SIGN = /[¥￥]/;
+
+const ISO_CODES = [
+  "USD", "EUR", "GBP", "JPY", "CNY", "KRW", "HKD", "TWD", "SGD", "AUD", "CAD", "NZD",
+  "CHF", "INR", "THB", "VND", "PHP", "MXN", "BRL", "TRY", "PLN", "SEK", "NOK", "DKK", "CZK",
+];
+
+const MARKET_PRICE_PATTERN =
+  /market\s*price|\bM\.?P\.?\b|\bS\.?Q\.?\b|\bA\.?Q\.?\b|时价|時價|時価|시가|prix du march[ée]|precio de mercado|prezzo di mercato/i;
+
+// Space-grouped thousands ("1 200,50") first, then plain runs of digits and separators
+const NUMBER_PATTERN = /\d{1,3}(?:[ \u00a0\u202f]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,'’]\d+)*/g;
+
+const detectCurrency = (raw: string): string | null => {
+  const isoMatch = raw.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find((code) => ISO_CODES.includes(code));
+  if (isoMatch) return isoMatch;
+
+  for (const [pattern, code] of CURRENCY_MARKERS) {
+    if (pattern.test(raw)) return code;
+  }
+  return null;
+};
+
+/**
+ * Reads a number written with either decimal convention. With both "." and ","
+ * present the last one is the decimal separator. With only one kind, a single
+ * separator followed by exactly three digits is treated as a thousands
+ * separator ("1,200", "1.200"); otherwise it is decimal ("12,50", "12.5").
+ */
+export const parseLocaleNumber = (token: string): number | null => {
+  const compact = token.replace(/[ \u00a0\u202f'’]/g, "");
+  const lastDot = compact.lastIndexOf(".");
+  const lastComma = compact.lastIndexOf(",");
+
+  let normalized: string;
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimalSeparator = lastDot > lastComma ? "." : ",";
+    const thousandsSeparator = decimalSeparator === "." ? "," : ".";
+    normalized = compact.split(thousandsSeparator).join("").replace(decimalSeparator, ".");
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? "." : ",";
+    const parts = compact.split(separator);
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    normalized = isThousands ? parts.join("") : parts.join(".");
+  } else {
+    normalized = compact;
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
+
+const cleanLabel = (text: string): string | undefined => {
+  const label = text
+    .replace(/US\$|HK\$|NT\$|[A-Z]{1,2}\$|(?:CN|JP)[¥￥]|RMB|[$€£¥￥₩₹฿₫₱₺]|円|元|원|zł|Kč/g, "")
+    .replace(/\b[A-Z]{3}\b/g, (code) => (ISO_CODES.includes(code) ? "" : code))
+    .replace(/^[\s/|,;:()\-–—·•]+|[\s/|,;:()\-–—·•]+$/g, "")
+    .trim();
+  return /\p{L}/u.test(label) ? label : undefined;
+};
+
+/**
+ * Normalizes a free-form menu price such as "1,200円", "12,50 €",
+ * "S 8 / L 12" or "Market price" into a structured price.
+ */
+export const parsePrice = (raw: string): ParsedPrice => {
+  const currency = detectCurrency(raw);
+
+  if (MARKET_PRICE_PATTERN.test(raw)) {
+    return { raw, amount: null, currency, options: [], isMarketPrice: true };
+  }
+
+  const options: PriceOption[] = [];
+  let previousEnd = 0;
+  for (const match of raw.matchAll(NUMBER_PATTERN)) {
+    const start = match.index ?? 0;
+    const amount = parseLocaleNumber(match[0]);
+    if (amount !== null) {
+      options.push({ label: cleanLabel(raw.slice(previousEnd, start)), amount });
+    }
+    previousEnd = start + match[0].length;
+  }
+
+  return {
+    raw,
+    amount: options[0]?.amount ?? null,
+    currency,
+    options,
+    isMarketPrice: false,
+  };
+};
+
+// The currency most prices on a menu are written in
+const getDominantCurrency = (prices: (ParsedPrice | undefined)[]): string | null => {
+  const counts = new Map<string, number>();
+  for (const price of prices) {
+    if (price?.currency) counts.set(price.currency, (counts.get(price.currency) ?? 0) + 1);
+  }
+
+  let dominant: string | null = null;
+  let highest = 0;
+  counts.forEach((count, code) => {
+    if (count > highest) {
+      dominant = code;
+      highest = count;
+    }
+  });
+  return dominant;
+};
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const HAN = /\p{Script=Han}/u;
+
+/**
+ * Which of yuan or yen a bare "¥" means on this menu: whichever another price
+ * names ("38元", "1,200円"), else yen when the text has any kana and yuan when
+ * it is otherwise written in Chinese characters. Kanji-only dish names are
+ * rare on a whole Japanese menu, but the user can still override the result.
+ */
+const resolveYenSign = (prices: (ParsedPrice | undefined)[], menuText: string[]): string | null => {
+  const named = prices.find((price) => price?.currency === "CNY" || price?.currency === "JPY");
+  if (named?.currency) return named.currency;
+
+  const text = menuText.join("\n");
+  if (KANA.test(text)) return "JPY";
+  if (HAN.test(text)) return "CNY";
+  return null;
+};
+
+/**
+ * Picks the currency for a menu, so items printed without a symbol (just "12",
+ * or "¥38") can borrow it. `menuText` is the dish text as printed, used to
+ * tell yuan from yen.
+ */
+export const getMenuCurrency = (prices: (ParsedPrice | undefined)[], menuText: string[]): string | null => {
+  const hasYenSign = prices.some((price) => price && !price.currency && YEN_SIGN.test(price.raw));
+  if (!hasYenSign) return getDominantCurrency(prices);
+
+  const yenCurrency = resolveYenSign(prices, menuText);
+  return getDominantCurrency(
+    prices.map((price) => (price && !price.currency && YEN_SIGN.test(price.raw) && yenCurrency ? { ...price, currency: yenCurrency } : price))
+  );
+};
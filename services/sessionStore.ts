@@ -0,0 +1,234 @@
+import { Dish, DishImageVariant, MenuPage, PhotoStyle } from "../types";
+
+const DB_NAME = "gourmetvision";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+
+// What the app holds in memory for a scanned menu
+export interface SessionSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  style: PhotoStyle;
+  pages: MenuPage[];
+  dishes: Dish[];
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  dishCount: number;
+  pageCount: number;
+  coverImage?: Blob;
+}
+
+// Variant images live in StoredSession.variantImages, keyed by variant id
+type StoredDish = Omit<Dish, "generatedImageUrl" | "imageStatus" | "imageError" | "imageVariants"> & {
+  imageVariants?: Omit<DishImageVariant, "imageUrl">[];
+};
+
+// Images are stored as blobs; a URL is kept only when the blob could not be read (e.g. CORS)
+interface StoredImage {
+  blob?: Blob;
+  url?: string;
+}
+
+interface StoredSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  style: PhotoStyle;
+  pages: { id: string; image: StoredImage }[];
+  dishes: StoredDish[];
+  // Image of each dish's selected variant
+  dishImages: Record<string, StoredImage>;
+  // Absent in sessions saved before dishes kept image variants
+  variantImages?: Record<string, StoredImage>;
+}
+
+// Blobs already read for a URL, so repeated autosaves don't fetch every image again.
+// Holds only the open session's images; releaseSessionImages empties it.
+const blobCache = new Map<string, Blob>();
+// Object URLs handed out by loadSession for the open session
+const objectUrls = new Set<string>();
+// Bumped on release, so a save still reading images when its session closed is dropped
+let releaseCount = 0;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = action(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const toStoredImage = async (url: string): Promise<StoredImage> => {
+  const cached = blobCache.get(url);
+  if (cached) return { blob: cached };
+
+  try {
+    const response = await fetch(url);
+    // An error page is not the image, e.g. a 404 once the server's blob store was cleaned up
+    if (!response.ok) throw new Error(`Image request failed with status ${response.status}`);
+    const blob = await response.blob();
+    blobCache.set(url, blob);
+    return { blob };
+  } catch (error) {
+    console.warn("Could not read image as blob, storing URL instead:", error);
+    return { url };
+  }
+};
+
+const fromStoredImage = (image: StoredImage): string | undefined => {
+  if (image.blob) {
+    const url = URL.createObjectURL(image.blob);
+    blobCache.set(url, image.blob);
+    objectUrls.add(url);
+    return url;
+  }
+  return image.url;
+};
+
+/**
+ * Frees the open session's images: revokes the object URLs loadSession
+ * created and drops the cached blobs. Call it when the session is closed,
+ * before another one is opened.
+ */
+export const releaseSessionImages = () => {
+  objectUrls.forEach((url) => URL.revokeObjectURL(url));
+  objectUrls.clear();
+  blobCache.clear();
+  releaseCount += 1;
+};
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const saveSession = async (session: SessionSnapshot): Promise<void> => {
+  const startedAt = releaseCount;
+  const pages = await Promise.all(
+    session.pages.map(async (page) => ({ id: page.id, image: await toStoredImage(page.imageUrl) }))
+  );
+
+  const dishImages: Record<string, StoredImage> = {};
+  const variantImages: Record<string, StoredImage> = {};
+  const dishes: StoredDish[] = [];
+  for (const dish of session.dishes) {
+    const { generatedImageUrl, imageStatus, imageError, imageVariants, ...storedDish } = dish;
+    const storedVariants: Omit<DishImageVariant, "imageUrl">[] = [];
+    for (const { imageUrl, ...variant } of imageVariants ?? []) {
+      variantImages[variant.id] = await toStoredImage(imageUrl);
+      storedVariants.push(variant);
+    }
+    dishes.push(storedVariants.length ? { ...storedDish, imageVariants: storedVariants } : storedDish);
+    if (generatedImageUrl) {
+      dishImages[dish.id] = await toStoredImage(generatedImageUrl);
+    }
+  }
+
+  // Images read after a release would be revoked URLs, which must not replace the saved blobs
+  if (releaseCount !== startedAt) return;
+
+  const stored: StoredSession = {
+    id: session.id,
+    name: session.name,
+    createdAt: session.createdAt,
+    updatedAt: Date.now(),
+    style: session.style,
+    pages,
+    dishes,
+    dishImages,
+    variantImages,
+  };
+  await runRequest("readwrite", (store) => store.put(stored));
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await runRequest<StoredSession[]>("readonly", (store) => store.getAll());
+  return sessions
+    .map((session) => ({
+      id: session.id,
+      name: session.name,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      dishCount: session.dishes.length,
+      pageCount: session.pages.length,
+      coverImage: session.pages[0]?.image.blob,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Restores a saved session. Generated images come back as object URLs and
+ * are marked ready, so reopening never calls the generation API for them.
+ */
+export const loadSession = async (id: string): Promise<SessionSnapshot | null> => {
+  const stored = await runRequest<StoredSession | undefined>("readonly", (store) => store.get(id));
+  if (!stored) return null;
+
+  const pages: MenuPage[] = stored.pages.map((page) => ({
+    id: page.id,
+    imageUrl: fromStoredImage(page.image) ?? "",
+  }));
+
+  const dishes: Dish[] = stored.dishes.map((dish) => {
+    const imageVariants = dish.imageVariants
+      ?.map((variant) => ({ ...variant, imageUrl: fromStoredImage(stored.variantImages?.[variant.id] ?? {}) ?? "" }))
+      .filter((variant) => variant.imageUrl);
+    const selectedVariant = imageVariants?.find((variant) => variant.id === dish.selectedVariantId);
+    const image = stored.dishImages[dish.id];
+    const generatedImageUrl = selectedVariant?.imageUrl ?? (image ? fromStoredImage(image) : undefined);
+    return {
+      ...dish,
+      imageVariants,
+      generatedImageUrl,
+      imageStatus: generatedImageUrl ? "ready" : "idle",
+    };
+  });
+
+  return {
+    id: stored.id,
+    name: stored.name,
+    createdAt: stored.createdAt,
+    style: stored.style,
+    pages,
+    dishes,
+  };
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const stored = await runRequest<StoredSession | undefined>("readonly", (store) => store.get(id));
+  if (!stored) return;
+  await runRequest("readwrite", (store) => store.put({ ...stored, name }));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(id));
+};
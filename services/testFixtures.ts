@@ -0,0 +1,21 @@
+import { Dish } from "../types";
+import { PriceContext } from "./currencyService";
+import { parsePrice } from "./priceParser";
+
+// Shared by the price tests: a dish named by its id, with the menu price as printed
+export const makePricedDish = (id: string, price?: string): Dish => ({
+  id,
+  pageId: "page-1",
+  originalName: id,
+  englishTranslation: id,
+  description: "",
+  imageStatus: "idle",
+  parsedPrice: price === undefined ? undefined : parsePrice(price),
+});
+
+// A Hong Kong menu read by a US visitor; 1 EUR = 16 HKD
+export const HKD_PRICE_CONTEXT: PriceContext = {
+  homeCurrency: "USD",
+  rates: { USD: 1, EUR: 0.5, HKD: 8 },
+  menuCurrency: "HKD",
+};
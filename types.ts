@@ -1,13 +1,113 @@
+// Languages dishes can be translated into, by English name for the model prompt
+export const TARGET_LANGUAGES = {
+  en: "English",
+  es: "Spanish",
+  zh: "Simplified Chinese",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  ja: "Japanese",
+  ko: "Korean",
+} as const;
+
+export type TargetLanguage = keyof typeof TARGET_LANGUAGES;
+
+export const isTargetLanguage = (value: unknown): value is TargetLanguage =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(TARGET_LANGUAGES, value);
+
+export interface MenuPage {
+  id: string;
+  imageUrl: string;
+}
+
+// Normalized (0-1) rectangle relative to the menu page it was read from
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DietaryTag<T> {
+  value: T;
+  // 0-1, as reported by the model
+  confidence: number;
+}
+
+export interface DietaryTags {
+  vegetarian?: DietaryTag<boolean>;
+  vegan?: DietaryTag<boolean>;
+  containsNuts?: DietaryTag<boolean>;
+  containsGluten?: DietaryTag<boolean>;
+  containsDairy?: DietaryTag<boolean>;
+  containsShellfish?: DietaryTag<boolean>;
+  // 0 = not spicy, 3 = very spicy
+  spicyLevel?: DietaryTag<number>;
+}
+
+export interface PriceOption {
+  // Size or serving label when the menu lists several prices, e.g. "Small" or "Glass"
+  label?: string;
+  amount: number;
+}
+
+export interface ParsedPrice {
+  raw: string;
+  // First listed price; null for market price or when no number could be read
+  amount: number | null;
+  // ISO 4217 code, null when the menu shows no currency
+  currency: string | null;
+  options: PriceOption[];
+  isMarketPrice: boolean;
+}
+
 export interface Dish {
   id: string;
+  pageId: string;
   originalName: string;
+  // Always English: used for image prompts and as the fallback display name
   englishTranslation: string;
   description: string;
+  // Name and description in the reader's target language; absent for English
+  translatedName?: string;
+  translatedDescription?: string;
+  translationLanguage?: TargetLanguage;
   price?: string;
+  parsedPrice?: ParsedPrice;
   category?: string;
+  boundingBox?: BoundingBox;
+  dietary?: DietaryTags;
+  explanation?: DishExplanation;
+  // Every image generated for the dish, oldest first
+  imageVariants?: DishImageVariant[];
+  selectedVariantId?: string;
+  // Image of the selected variant; this is what cards, sessions and exports show
   generatedImageUrl?: string;
-  isLoadingImage?: boolean;
-  hasAttemptedGeneration?: boolean;
+  imageStatus: DishImageStatus;
+  // Why the last generation failed; kept while an earlier image is still shown
+  imageError?: RequestErrorCode;
+}
+
+// Photo generation lifecycle, driven by services/dishReducer.ts
+export type DishImageStatus = "idle" | "queued" | "loading" | "ready" | "failed";
+
+export interface DishImageVariant {
+  id: string;
+  imageUrl: string;
+  style: PhotoStyle;
+  // Description the image was generated from, which the user may have edited
+  description: string;
+  // Extra prompt direction typed by the user, e.g. "served in a clay pot"
+  instructions?: string;
+  createdAt: number;
+}
+
+// Problems found while validating model output, shown to the user
+export interface MenuParseWarning {
+  code: "TRUNCATED_RESPONSE" | "MISSING_DISHES" | "DROPPED_ITEMS" | "REPAIRED_ITEMS";
+  message: string;
+  count?: number;
 }
 
 export interface MenuAnalysisResponse {
@@ -15,9 +115,91 @@ export interface MenuAnalysisResponse {
     originalName: string;
     englishTranslation: string;
     ingredientsOrDescription: string;
+    translatedName?: string;
+    translatedDescription?: string;
     price?: string;
     category?: string;
+    // [yMin, xMin, yMax, xMax] on a 0-1000 scale, as Gemini reports boxes
+    boundingBox?: number[];
+    dietary?: DietaryTags;
   }[];
+  warnings?: MenuParseWarning[];
+}
+
+// Text sent to /api/translate-menu to re-translate dishes without a new image parse
+export interface DishTranslationRequest {
+  id: string;
+  originalName: string;
+  englishTranslation: string;
+  description: string;
+}
+
+export interface DishTranslation {
+  id: string;
+  translatedName: string;
+  translatedDescription: string;
+}
+
+export interface MenuTranslationResponse {
+  translations: DishTranslation[];
+}
+
+export interface DishExplanationRequest {
+  originalName: string;
+  englishTranslation: string;
+  description: string;
+}
+
+// Culinary background for the dish detail view, fetched on demand from /api/explain-dish
+export interface DishExplanation {
+  origin: string;
+  howToEat: string;
+  flavor: string;
+  // Romanized respelling of originalName, e.g. "kah-CHOH eh PEH-peh"
+  pronunciation: string;
+  // BCP 47 code used to pick a speech synthesis voice; "und" when unknown
+  originalLanguageCode: string;
+  // Language the explanation text is written in
+  language: TargetLanguage;
+}
+
+// One line of the NDJSON stream returned by /api/parse-menu when streaming
+export type MenuStreamEvent =
+  | { type: "dish"; dish: MenuAnalysisResponse["dishes"][number] }
+  | { type: "done"; warnings: MenuParseWarning[] }
+  | { type: "error"; error: string; code: ApiErrorCode };
+
+// One line of the NDJSON stream from /api/generate-images; dishes arrive in the order they finish
+export type ImageBatchEvent =
+  | { type: "image"; dishId: string; imageUrl: string; cached: boolean }
+  // retryAfterMs is set for dishes over the rate limit, which were not attempted
+  | { type: "error"; dishId: string; error: string; code: ApiErrorCode; retryAfterMs?: number }
+  | { type: "done" };
+
+// Why an /api request failed; the UI picks its message and recovery from this,
+// while `error` stays a developer-facing description
+export type ApiErrorCode =
+  | "invalid_request"
+  | "method_not_allowed"
+  | "not_found"
+  | "payload_too_large"
+  | "rate_limited"
+  | "missing_api_key"
+  | "invalid_api_key"
+  | "quota_exceeded"
+  | "content_policy"
+  | "timeout"
+  | "upstream_unavailable"
+  | "internal";
+
+// Client-side failures that never reached a handler add to the API codes
+export type RequestErrorCode = ApiErrorCode | "network" | "unknown";
+
+export interface ApiErrorResponse {
+  error: string;
+  code: ApiErrorCode;
+  // Per-field problems for invalid_request
+  details?: string[];
 }
 
 export enum PhotoStyle {